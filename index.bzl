@@ -1,6 +1,9 @@
 load("@npm_angular_bazel//:index.bzl", _ng_module = "ng_module")
 load("@io_bazel_rules_sass//sass:sass.bzl", _sass_binary = "sass_binary", _sass_library = "sass_library")
 
+def _file_to_name(file):
+    return file.rsplit(".", 1)[0].replace("/", "_").replace(".", "_")
+
 def ng_module(
         # name used for this rule
         name,
@@ -8,38 +11,50 @@ def ng_module(
         srcs,
         # dependencies for the typescript files
         deps = [],
-        # scss files used by the component
-        style = None,
-        # any dependencies needed for the scss style
+        # scss files used by the components, a sass_binary is created for each
+        styles = [],
+        # any dependencies needed for the scss styles
         style_deps = [],
         # assets, eg html files etc
         assets = [],
-        # theme file if required
-        theme = None,
-        # dependencies for the theme
+        # theme files if required, a sass_binary is created for each
+        themes = [],
+        # dependencies for the themes
         theme_deps = [],
         # the visibility of the ng_module
         visibility = ["//:__subpackages__"],
+        # deprecated, single style and theme files, use styles and themes
+        style = None,
+        theme = None,
         **kwargs):
+    if style != None:
+        styles = styles + [style]
+
     if theme != None:
+        themes = themes + [theme]
+
+    for theme_file in themes:
+        # a single theme keeps the name used before multiple themes were supported, so existing references still work
         _sass_binary(
-            name = "%s_theme" % name,
-            src = theme,
+            name = "%s_theme" % name if len(themes) == 1 else "%s_%s" % (name, _file_to_name(theme_file)),
+            src = theme_file,
             deps = theme_deps,
             visibility = ["//:__subpackages__"],
         )
 
     ng_module_assets = assets
 
-    if style != None:
+    for style_file in styles:
+        style_name = "%s_styles" % name if len(styles) == 1 else "%s_%s" % (name, _file_to_name(style_file))
+
         _sass_binary(
-            name = "%s_styles" % name,
-            src = style,
+            name = style_name,
+            src = style_file,
             deps = style_deps,
             visibility = visibility,
         )
 
-        ng_module_assets = ng_module_assets + [":%s_styles" % name]
+        ng_module_assets = ng_module_assets + [":%s" % style_name]
 
     _ng_module(
         name = name,
@@ -9,6 +9,7 @@ export class Buildozer {
 
   private readonly commands: Set<string> = new Set<string>();
   private readonly rules: Set<string> = new Set();
+  private readonly packages: Set<string> = new Set();
 
   constructor(private readonly ruleLoadSites: Map<string, string>) {}
 
@@ -35,7 +36,6 @@ export class Buildozer {
   }
 
   newSassLibraryRule(label: Label) {
-    this.rules.add(label.getTarget());
     this.loadSassLibrary(label);
     this.newRule('sass_library', label);
 
@@ -83,6 +83,54 @@ export class Buildozer {
     return sassRuleHelper;
   }
 
+  newLessLibraryRule(label: Label) {
+    this.loadRule('less_library', label);
+    this.newRule('less_library', label);
+
+    const lessRuleHelper = {
+      setSrcs: (srcs: string[]) => {
+        this.addAttr('srcs', srcs, label);
+        return lessRuleHelper;
+      },
+      setDeps: (deps: Array<string | Label>) => {
+        if (deps && deps.length) {
+          this.addAttr('deps', deps.map(l => l.toString()), label);
+        }
+        return lessRuleHelper;
+      },
+      setVisibility: (visibility: string) => {
+        this.setVisibility([visibility], label);
+        return lessRuleHelper;
+      }
+    };
+
+    return lessRuleHelper;
+  }
+
+  newLessBinaryRule(label: Label) {
+    this.loadRule('less_binary', label);
+    this.newRule('less_binary', label);
+
+    const lessRuleHelper = {
+      setSrc: (src: string) => {
+        this.setAttr('src', src, label);
+        return lessRuleHelper;
+      },
+      setDeps: (deps: Array<string | Label>) => {
+        if (deps && deps.length) {
+          this.addAttr('deps', deps.map(l => l.toString()), label);
+        }
+        return lessRuleHelper;
+      },
+      setVisibility: (visibility: string) => {
+        this.setVisibility([visibility], label);
+        return lessRuleHelper;
+      }
+    };
+
+    return lessRuleHelper;
+  }
+
   newNgModuleRule(label: Label) {
     this.loadNgModule(label);
     this.newRule('ng_module', label);
@@ -138,6 +186,16 @@ export class Buildozer {
         }
         return tsLibraryRuleHelper;
       },
+      addData: (data: Array<Label | string>) => {
+        if (data && data.length) {
+          this.addAttr('data', data.map(l => l.toString()), label);
+        }
+        return tsLibraryRuleHelper;
+      },
+      setTestonly: () => {
+        this.setBooleanAttr('testonly', true, label);
+        return tsLibraryRuleHelper;
+      },
       setVisibility: (visibility: string) => {
         this.setVisibility([visibility], label);
         return tsLibraryRuleHelper;
@@ -147,6 +205,80 @@ export class Buildozer {
     return tsLibraryRuleHelper;
   }
 
+  newJsLibraryRule(rule: string, label: Label) {
+    this.loadRule(rule, label);
+    this.newRule(rule, label);
+
+    const jsRuleHelper = {
+      setSrcs: (srcs: string[]) => {
+        this.addAttr('srcs', srcs, label);
+        return jsRuleHelper;
+      },
+      addDeps: (deps: Array<string | Label>) => {
+        if (deps && deps.length) {
+          this.addDep(deps, label);
+        }
+        return jsRuleHelper;
+      },
+      setVisibility: (visibility: string) => {
+        this.setVisibility([visibility], label);
+        return jsRuleHelper;
+      }
+    };
+
+    return jsRuleHelper;
+  }
+
+  newTestRule(rule: string, label: Label) {
+    this.loadRule(rule, label);
+    this.newRule(rule, label);
+
+    const testRuleHelper = {
+      addSrcs: (srcs: Array<string | Label>) => {
+        if (srcs && srcs.length) {
+          this.addSrc(srcs.map(l => l.toString()), label);
+        }
+        return testRuleHelper;
+      },
+      addDeps: (deps: Array<string | Label>) => {
+        if (deps && deps.length) {
+          this.addDep(deps, label);
+        }
+        return testRuleHelper;
+      },
+      setVisibility: (visibility: string) => {
+        this.setVisibility([visibility], label);
+        return testRuleHelper;
+      }
+    };
+
+    return testRuleHelper;
+  }
+
+  newNodejsBinaryRule(label: Label) {
+    this.loadRule('nodejs_binary', label);
+    this.newRule('nodejs_binary', label);
+
+    const nodejsBinaryRuleHelper = {
+      setEntryPoint: (entryPoint: string | Label) => {
+        this.setAttr('entry_point', entryPoint.toString(), label);
+        return nodejsBinaryRuleHelper;
+      },
+      addData: (data: Array<string | Label>) => {
+        if (data && data.length) {
+          this.addAttr('data', data.map(l => l.toString()), label);
+        }
+        return nodejsBinaryRuleHelper;
+      },
+      setVisibility: (visibility: string) => {
+        this.setVisibility([visibility], label);
+        return nodejsBinaryRuleHelper;
+      }
+    };
+
+    return nodejsBinaryRuleHelper;
+  }
+
   newFilegroup(label: Label) {
     this.newRule('filegroup', label);
 
@@ -164,7 +296,8 @@ export class Buildozer {
   }
 
   newRule(rule: string, label: Label) {
-    this.rules.add(label.getTarget());
+    this.rules.add(label.toString());
+    this.packages.add(label.getPackage());
     this.commands.add(`new ${rule} ${label.getTarget()}|${label.withTarget(Buildozer.PKG)}`);
   }
 
@@ -193,11 +326,27 @@ export class Buildozer {
     this.commands.add(`set ${attr} "${value}"|${label}`);
   }
 
+  setDictAttr(attr: string, value: Map<string, string>, label: Label) {
+    const entries = Array.from(value.entries()).map(([key, val]) => `${key}:${val}`);
+    this.commands.add(`dict_set ${attr} ${entries.join(' ')}|${label}`);
+  }
+
+  setBooleanAttr(attr: string, value: boolean, label: Label) {
+    this.commands.add(`set ${attr} ${value ? 'True' : 'False'}|${label}`);
+  }
+
   toCommands(): string[] {
     return Array.from(this.commands);
   }
 
-  hasRule(name: string): boolean {
-    return this.rules.has(name);
+  hasRule(label: Label): boolean {
+    return this.rules.has(label.toString());
+  }
+
+  /**
+   * Returns the packages that have had new rules created in them
+   */
+  getPackages(): string[] {
+    return Array.from(this.packages);
   }
 }
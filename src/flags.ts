@@ -2,14 +2,33 @@ import { lstatSync, readFileSync } from 'fs';
 import { isAbsolute, join, resolve } from 'path';
 import * as yargs from 'yargs';
 
+import { AppGeneratorFlags } from './generators/app/app.generator.flags';
+import { AssetsGeneratorFlags } from './generators/assets/assets.generator.flags';
+import { CssGeneratorFlags } from './generators/css/css.generator.flags';
+import { JsGeneratorFlags } from './generators/js/js.generator.flags';
+import { LessGeneratorFlags } from './generators/less/less.generator.flags';
+import { NgPackageGeneratorFlags } from './generators/ng/ng-package.generator.flags';
 import { NgGeneratorFlags } from './generators/ng/ng.generator.flags';
+import { PkgNpmGeneratorFlags } from './generators/pkg-npm/pkg-npm.generator.flags';
+import { ProtoGeneratorFlags } from './generators/proto/proto.generator.flags';
+import { ReactGeneratorFlags } from './generators/react/react.generator.flags';
 import { SassGeneratorFlags } from './generators/sass/sass.generator.flags';
 import { TsGeneratorFlags } from './generators/ts/ts.generator.flags';
 import { debug, fatal, lb } from './logger';
+import { GeneratorPlugin } from './plugins';
 
 export enum GeneratorType {
+  APP = 'app',
+  ASSETS = 'assets',
+  CSS = 'css',
+  JS = 'js',
+  LESS = 'less',
   NG = 'ng',
   NG_BUNDLE = 'ng_bundle',
+  NG_PACKAGE = 'ng_package',
+  PKG_NPM = 'pkg_npm',
+  PROTO = 'proto',
+  REACT = 'react',
   SASS = 'sass',
   TS = 'ts'
 }
@@ -49,6 +68,11 @@ interface CommonFlags {
    */
   assert_is_bazel_workspace: boolean;
 
+  /**
+   * Paths to modules that provide additional generators, relative paths are resolved from the base dir
+   */
+  generator_plugin: string[];
+
   /**
    * Base dir that is prefixed to 'path' to form an absolute path
    */
@@ -172,7 +196,9 @@ interface CommonFlags {
   buildozer_binary: string;
 }
 
-type AllFlags = CommonFlags & SassGeneratorFlags & TsGeneratorFlags & NgGeneratorFlags;
+type AllFlags = CommonFlags & AppGeneratorFlags & AssetsGeneratorFlags & SassGeneratorFlags & CssGeneratorFlags &
+  LessGeneratorFlags & TsGeneratorFlags & JsGeneratorFlags & NgGeneratorFlags & NgPackageGeneratorFlags &
+  PkgNpmGeneratorFlags & ProtoGeneratorFlags & ReactGeneratorFlags;
 export type Flags = Readonly<AllFlags>;
 
 const commonYargsOptions = y => {
@@ -188,7 +214,10 @@ const commonYargsOptions = y => {
   });
 };
 
-export const setupAndParseArgs = (argv: string[], ignorerc = false, strip = 2): Flags => {
+/**
+ * Returns the args to parse, with the args from the rc file inserted after the type and path unless 'ignorerc' is set
+ */
+export const readArgs = (argv: string[], ignorerc = false, strip = 2): string[] => {
   const ARGS = [...argv].slice(strip);
   const isDebug = ARGS.includes('--debug');
 
@@ -219,12 +248,26 @@ export const setupAndParseArgs = (argv: string[], ignorerc = false, strip = 2):
     }
   }
 
-  if (isDebug) {
+  return ARGS;
+};
+
+/**
+ * Parses the args, adding a subcommand for each of the 'plugins'
+ * Plugins add their own flags, so need to be loaded before the args are parsed, see loadGeneratorPlugins
+ */
+export const setupAndParseArgs = (argv: string[], ignorerc = false, strip = 2, plugins: GeneratorPlugin[] = []): Flags => {
+  const ARGS = readArgs(argv, ignorerc, strip);
+
+  if (ARGS.includes('--debug')) {
     debug('Parsing argv:');
     debug(ARGS.join(' '));
     lb();
   }
 
+  plugins
+    .filter(plugin => (Object.values(GeneratorType) as string[]).includes(plugin.type))
+    .forEach(plugin => fatal(`Generator plugin type '${plugin.type}' conflicts with a built in generator`));
+
   const bazelWorkspaceDir = process.env.BUILD_WORKSPACE_DIRECTORY;
 
   const parser = yargs
@@ -235,15 +278,35 @@ export const setupAndParseArgs = (argv: string[], ignorerc = false, strip = 2):
           .positional('type', {
             describe: 'Type of rule to expect to generate',
             type: 'string',
-            choices: Object.entries(GeneratorType).map(t => t[1])
+            choices: [...Object.entries(GeneratorType).map(t => t[1]), ...plugins.map(plugin => plugin.type)]
           });
       }
     })
+    .command({
+      command: 'app <path>',
+      builder: y => require('./generators/app/app.generator.flags').setupGeneratorCommand(commonYargsOptions(y)),
+      handler: args => args.type = GeneratorType.APP
+    })
+    .command({
+      command: 'assets <path>',
+      builder: y => require('./generators/assets/assets.generator.flags').setupGeneratorCommand(commonYargsOptions(y)),
+      handler: args => args.type = GeneratorType.ASSETS
+    })
     .command({
       command: 'sass <path>',
       builder: y => require('./generators/sass/sass.generator.flags').setupGeneratorCommand(commonYargsOptions(y)),
       handler: args => args.type = GeneratorType.SASS
     })
+    .command({
+      command: 'css <path>',
+      builder: y => require('./generators/css/css.generator.flags').setupGeneratorCommand(commonYargsOptions(y)),
+      handler: args => args.type = GeneratorType.CSS
+    })
+    .command({
+      command: 'less <path>',
+      builder: y => require('./generators/less/less.generator.flags').setupGeneratorCommand(commonYargsOptions(y)),
+      handler: args => args.type = GeneratorType.LESS
+    })
     .command({
       command: 'ng <path>',
       builder: y => require('./generators/ng/ng.generator.flags').setupGeneratorCommand(commonYargsOptions(y)),
@@ -254,11 +317,36 @@ export const setupAndParseArgs = (argv: string[], ignorerc = false, strip = 2):
       builder: y => require('./generators/ng/ng.generator.flags').setupGeneratorCommand(commonYargsOptions(y)),
       handler: args => args.type = GeneratorType.NG_BUNDLE
     })
+    .command({
+      command: 'ng_package <path>',
+      builder: y => require('./generators/ng/ng-package.generator.flags').setupGeneratorCommand(commonYargsOptions(y)),
+      handler: args => args.type = GeneratorType.NG_PACKAGE
+    })
+    .command({
+      command: 'pkg_npm <path>',
+      builder: y => require('./generators/pkg-npm/pkg-npm.generator.flags').setupGeneratorCommand(commonYargsOptions(y)),
+      handler: args => args.type = GeneratorType.PKG_NPM
+    })
     .command({
       command: 'ts <path>',
       builder: y => require('./generators/ts/ts.generator.flags').setupGeneratorCommand(commonYargsOptions(y)),
       handler: args => args.type = GeneratorType.TS
     })
+    .command({
+      command: 'js <path>',
+      builder: y => require('./generators/js/js.generator.flags').setupGeneratorCommand(commonYargsOptions(y)),
+      handler: args => args.type = GeneratorType.JS
+    })
+    .command({
+      command: 'proto <path>',
+      builder: y => require('./generators/proto/proto.generator.flags').setupGeneratorCommand(commonYargsOptions(y)),
+      handler: args => args.type = GeneratorType.PROTO
+    })
+    .command({
+      command: 'react <path>',
+      builder: y => require('./generators/react/react.generator.flags').setupGeneratorCommand(commonYargsOptions(y)),
+      handler: args => args.type = GeneratorType.REACT
+    })
     // command flags
     .option('nuke_build_file', {
       type: 'boolean',
@@ -266,6 +354,13 @@ export const setupAndParseArgs = (argv: string[], ignorerc = false, strip = 2):
       default: false,
       group: 'Configuration'
     })
+    .option('generator_plugin', {
+      type: 'array',
+      description: 'Paths to modules that provide additional generators, relative paths are resolved from the base dir',
+      default: [],
+      requiresArg: true,
+      group: 'Configuration'
+    })
     .option('base_dir', {
       type: 'string',
       description: 'Base dir that is prefixed to \'path\' to form an absolute path',
@@ -415,5 +510,14 @@ export const setupAndParseArgs = (argv: string[], ignorerc = false, strip = 2):
     .wrap(yargs.terminalWidth())
     .version();
 
+  plugins.forEach(plugin => {
+    parser.command({
+      command: `${plugin.type} <path>`,
+      describe: plugin.description,
+      builder: y => plugin.setupGeneratorCommand ? plugin.setupGeneratorCommand(commonYargsOptions(y)) : commonYargsOptions(y),
+      handler: args => args.type = plugin.type
+    });
+  });
+
   return parser.parse(ARGS) as Flags;
 };
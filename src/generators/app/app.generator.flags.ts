@@ -0,0 +1,54 @@
+export const DEFAULT_ASSET_EXTENSIONS = [
+  '.png', '.jpg', '.jpeg', '.gif', '.svg', '.webp', '.ico',
+  '.woff', '.woff2', '.ttf', '.otf', '.eot'
+];
+
+export function setupGeneratorCommand(y) {
+  return y.option('app_bundle_rule', {
+    type: 'string',
+    description: 'The rule kind used to bundle the application, eg rollup_bundle or esbuild',
+    default: 'rollup_bundle',
+    requiresArg: true,
+    group: 'App Generator'
+  }).option('app_bundle_name', {
+    type: 'string',
+    description: 'The name of the generated bundle rule',
+    default: 'bundle',
+    requiresArg: true,
+    group: 'App Generator'
+  }).option('app_assets_name', {
+    type: 'string',
+    description: 'The name of the generated filegroup of static assets',
+    default: 'assets',
+    requiresArg: true,
+    group: 'App Generator'
+  }).option('app_asset_extensions', {
+    type: 'array',
+    description: 'The extensions of the files in the application package that are added to the assets filegroup',
+    default: DEFAULT_ASSET_EXTENSIONS,
+    requiresArg: true,
+    group: 'App Generator'
+  });
+}
+
+export interface AppGeneratorFlags {
+  /**
+   * The rule kind used to bundle the application, eg rollup_bundle or esbuild
+   */
+  app_bundle_rule: string;
+
+  /**
+   * The name of the generated bundle rule
+   */
+  app_bundle_name: string;
+
+  /**
+   * The name of the generated filegroup of static assets
+   */
+  app_assets_name: string;
+
+  /**
+   * The extensions of the files in the application package that are added to the assets filegroup
+   */
+  app_asset_extensions: string[];
+}
@@ -0,0 +1,73 @@
+import { parse, relative } from 'path';
+
+import { GeneratorType } from '../../flags';
+import { fatal } from '../../logger';
+import { Workspace } from '../../workspace';
+import { BuildFileGenerator } from '../generator';
+
+const ENTRY_EXTENSIONS = ['.ts', '.tsx', '.js', '.mjs'];
+
+/**
+ * Generates the bundle rule for an application's entry file, depending on the library generated for the package,
+ * along with a filegroup of the static assets (images, fonts, favicons) in the package
+ */
+export class AppGenerator extends BuildFileGenerator {
+  constructor(private readonly workspace: Workspace) {
+    super();
+  }
+
+  async generate(): Promise<void> {
+    const flags = this.workspace.getFlags();
+    const buildozer = this.workspace.getBuildozer();
+
+    const pathLabel = this.workspace.getLabelForPath();
+    const entryPoint = this.workspace.getPathFromBaseDir();
+
+    const bundleRule = flags.app_bundle_rule;
+    const bundleLabel = pathLabel.withTarget(flags.app_bundle_name);
+
+    buildozer.loadRule(bundleRule, bundleLabel);
+    buildozer.newRule(bundleRule, bundleLabel);
+    buildozer.setAttr('entry_point', pathLabel.withTarget(parse(entryPoint).base).toString(), bundleLabel);
+    buildozer.addAttr('deps', [pathLabel.getTarget(true)], bundleLabel);
+
+    if (flags.default_visibility) {
+      buildozer.setVisibility([flags.default_visibility], bundleLabel);
+    }
+
+    const assets = this.findAssets(this.workspace.getPathAsDirectory());
+    if (assets.length) {
+      buildozer.newFilegroup(pathLabel.withTarget(flags.app_assets_name))
+        .setSrcs(assets);
+    }
+  }
+
+  getGeneratorType(): GeneratorType {
+    return GeneratorType.APP;
+  }
+
+  supportsDirectories(): boolean {
+    return false;
+  }
+
+  validate(): boolean {
+    if (!ENTRY_EXTENSIONS.includes(this.workspace.getPathInfo().ext)) {
+      fatal(`Path passed to App generator must be the entry file of the application, one of ${ENTRY_EXTENSIONS.join(', ')}`);
+    }
+
+    return true;
+  }
+
+  /**
+   * Returns the asset files in the package, relative to it, excluding those in subdirectories that are their own package
+   */
+  private findAssets(pkg: string): string[] {
+    const extensions = this.workspace.getFlags().app_asset_extensions;
+
+    return this.workspace.walkDirectoriesAt(pkg, child => !this.workspace.hasBuildFile(child))
+      .map(dir => this.workspace.readDirectoryAt(dir))
+      .reduce((files, dirFiles) => files.concat(dirFiles), [])
+      .filter(file => extensions.includes(parse(file).ext.toLowerCase()))
+      .map(file => relative(pkg, file));
+  }
+}
@@ -0,0 +1,25 @@
+export const DEFAULT_ASSET_GROUPS = [
+  'i18n=*.{xlf,xliff,xmb,xtb},i18n/**/*.json',
+  'images=*.{png,jpg,jpeg,gif,svg,webp,ico}',
+  'fonts=*.{woff,woff2,ttf,otf,eot}',
+  'data=*.json'
+];
+
+export function setupGeneratorCommand(y) {
+  return y.option('asset_group', {
+    type: 'array',
+    description: 'Rules for grouping files into filegroups, in the form name=glob[,glob], ' +
+      'files are added to the first group they match',
+    default: DEFAULT_ASSET_GROUPS,
+    requiresArg: true,
+    group: 'Assets Generator'
+  });
+}
+
+export interface AssetsGeneratorFlags {
+  /**
+   * Rules for grouping files into filegroups, in the form name=glob[,glob], eg images=*.{png,svg}
+   * Files are added to the first group they match, globs without a '/' match the file name at any depth
+   */
+  asset_group: string[];
+}
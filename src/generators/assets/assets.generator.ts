@@ -0,0 +1,129 @@
+import { parse, relative } from 'path';
+
+import { GeneratorType } from '../../flags';
+import { fatal, warn } from '../../logger';
+import { Workspace } from '../../workspace';
+import { BuildFileGenerator } from '../generator';
+import { globToRegExp, splitPatterns } from './glob';
+
+// files in a package that configure the build rather than being assets of it
+const IGNORED_FILES = [/^package(-lock)?\.json$/, /^tsconfig.*\.json$/, /^ng-package\.json$/, /^BUILD(\.bazel)?$/];
+
+// files that may reference assets, either through imports or string paths, eg templates
+const REFERENCING_EXTENSIONS = ['.ts', '.tsx', '.js', '.html', '.scss', '.css'];
+const NG_DECORATOR_REGEX = /@(Component|Directive|NgModule|Pipe|Injectable)\(/;
+
+interface AssetGroup {
+  name: string;
+  patterns: RegExp[];
+}
+
+/**
+ * Groups the non code files in a directory (and subdirectories that aren't their own package) into filegroups,
+ * based on the --asset_group rules.
+ *
+ * Filegroups containing files referenced from the sources in the package are added to the package's target,
+ * as 'assets' for an ng_module, otherwise as 'data'
+ */
+export class AssetsGenerator extends BuildFileGenerator {
+  constructor(private readonly workspace: Workspace) {
+    super();
+  }
+
+  async generate(): Promise<void> {
+    const flags = this.workspace.getFlags();
+    const buildozer = this.workspace.getBuildozer();
+
+    const pkg = this.workspace.getPathAsDirectory();
+    const pathLabel = this.workspace.getLabelForPath();
+
+    const grouped = this.groupFiles(pkg, this.parseAssetGroups(flags.asset_group));
+
+    grouped.forEach((files, name) => {
+      const filegroup = buildozer.newFilegroup(pathLabel.withTarget(name))
+        .setSrcs(files);
+
+      if (flags.default_visibility) {
+        filegroup.setVisibility(flags.default_visibility);
+      }
+    });
+
+    const sources = this.workspace.readDirectoryAt(pkg)
+      .filter(file => REFERENCING_EXTENSIONS.includes(parse(file).ext))
+      .map(file => this.workspace.readFile(file));
+
+    const referenced = Array.from(grouped.keys())
+      .filter(name => grouped.get(name).some(file => sources.some(source => this.isReferenced(file, source))))
+      .map(name => pathLabel.withTarget(name).getTarget(true));
+
+    if (!referenced.length) { return; }
+
+    const tsSources = this.workspace.readDirectoryAt(pkg)
+      .filter(file => file.endsWith('.ts') && !file.endsWith('.d.ts'));
+
+    if (!tsSources.length) {
+      warn(`Assets in ${pkg} are referenced, but the package has no typescript target to add them to`);
+      return;
+    }
+
+    const isNgPackage = tsSources.some(file => NG_DECORATOR_REGEX.test(this.workspace.readFile(file)));
+    buildozer.addAttr(isNgPackage ? 'assets' : 'data', referenced, pathLabel);
+  }
+
+  getGeneratorType(): GeneratorType {
+    return GeneratorType.ASSETS;
+  }
+
+  supportsDirectories(): boolean {
+    return true;
+  }
+
+  validate(): boolean {
+    if (!this.workspace.isDirectory()) {
+      fatal('Path passed to Assets generator must be a directory');
+    }
+
+    return true;
+  }
+
+  /**
+   * Returns the package relative files for each group, files are added to the first group they match
+   */
+  private groupFiles(pkg: string, groups: AssetGroup[]): Map<string, string[]> {
+    const grouped = new Map<string, string[]>();
+
+    this.workspace.walkDirectoriesAt(pkg, child => !this.workspace.hasBuildFile(child))
+      .map(dir => this.workspace.readDirectoryAt(dir))
+      .reduce((files, dirFiles) => files.concat(dirFiles), [])
+      .map(file => relative(pkg, file))
+      .filter(file => !IGNORED_FILES.some(ignored => ignored.test(parse(file).base)))
+      .forEach(file => {
+        const group = groups.find(candidate => candidate.patterns.some(pattern => pattern.test(file)));
+        if (!group) { return; }
+
+        grouped.set(group.name, [...(grouped.get(group.name) || []), file]);
+      });
+
+    return grouped;
+  }
+
+  private parseAssetGroups(rules: string[]): AssetGroup[] {
+    return rules.map(rule => {
+      const [name, patterns] = rule.split('=');
+      if (!name || !patterns) {
+        fatal(`Invalid --asset_group '${rule}', expected the form name=glob[,glob]`);
+      }
+
+      return { name, patterns: splitPatterns(patterns).map(pattern => globToRegExp(pattern)) };
+    });
+  }
+
+  /**
+   * Checks if the source references the package relative file as a path, eg import data from './data.json',
+   * templateUrl: './card.html' or <img src="assets/logo.svg">
+   */
+  private isReferenced(file: string, source: string): boolean {
+    const escaped = file.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[\\s'"\`(/])${escaped}(['"\`)?#\\s]|$)`).test(source);
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Converts a glob-style pattern to a regular expression matching package relative paths
+ * Supports '*', '?', '**' and '{a,b}' alternatives. Patterns without a '/' match the file name at any depth
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // '**/' matches zero or more directories, a trailing '**' matches anything
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const prefix = pattern.includes('/') ? '' : '(?:.*/)?';
+  return new RegExp(`^${prefix}${source}$`);
+}
+
+/**
+ * Splits a comma separated list of glob patterns, ignoring the commas inside '{}' alternatives
+ */
+export function splitPatterns(patterns: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let braceDepth = 0;
+
+  for (const char of patterns.split('')) {
+    if (char === ',' && !braceDepth) {
+      result.push(current);
+      current = '';
+      continue;
+    }
+
+    if (char === '{') { braceDepth++; }
+    if (char === '}' && braceDepth) { braceDepth--; }
+
+    current += char;
+  }
+
+  result.push(current);
+
+  return result.map(pattern => pattern.trim()).filter(pattern => !!pattern);
+}
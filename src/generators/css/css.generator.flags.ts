@@ -0,0 +1,20 @@
+import { setupGeneratorCommand as setupSassGeneratorCommand } from '../sass/sass.generator.flags';
+
+export function setupGeneratorCommand(y) {
+  // imports are resolved using the sass load paths
+  setupSassGeneratorCommand(y);
+
+  return y.option('css_filegroup_suffix', {
+    type: 'string',
+    description: 'Suffix used for the filegroup rule names of css files',
+    default: 'css',
+    group: 'CSS Generator'
+  });
+}
+
+export interface CssGeneratorFlags {
+  /**
+   * Suffix used for the filegroup rule names of css files
+   */
+  css_filegroup_suffix: string;
+}
@@ -0,0 +1,52 @@
+import { parse } from 'path';
+
+import { GeneratorType } from '../../flags';
+import { Workspace } from '../../workspace';
+import { collectStyleImports } from '../sass/imports';
+import { SassGenerator } from '../sass/sass.generator';
+
+/**
+ * Generates a filegroup for plain css files, containing the file and the filegroups of the files it imports
+ * Imports are resolved in the same way as the sass generator
+ */
+export class CssGenerator extends SassGenerator {
+  constructor(readonly workspace: Workspace) {
+    super(workspace);
+  }
+
+  getGeneratorType(): GeneratorType {
+    return GeneratorType.CSS;
+  }
+
+  protected isSourceFile(file: string): boolean {
+    return parse(file).ext === '.css';
+  }
+
+  protected generateForFile(path: string, useLocalDeps = false) {
+    const flags = this.workspace.getFlags();
+    const label = this.workspace.getLabelForPath();
+    const deps = this.calculateFileDeps(path, useLocalDeps);
+
+    const fileInfo = parse(path);
+    const ruleName = this.workspace.calculateRuleName(fileInfo.base, flags.css_filegroup_suffix);
+
+    const filegroup = this.buildozer.newFilegroup(label.withTarget(ruleName))
+      .setSrcs([fileInfo.base, ...deps]);
+
+    if (flags.default_visibility) {
+      filegroup.setVisibility(flags.default_visibility);
+    }
+  }
+
+  protected collectImports(source: string): string[] {
+    return collectStyleImports(source, true);
+  }
+
+  protected getLibrarySuffix(): string {
+    return this.workspace.getFlags().css_filegroup_suffix;
+  }
+
+  protected resolveImportCandidates(path: string): string[] {
+    return parse(path).ext === '.css' ? [path] : [`${path}.css`];
+  }
+}
@@ -16,9 +16,9 @@ export abstract class BuildFileGenerator {
   public abstract async generate(): Promise<void>;
 
   /**
-   * Get the type of generator this is
+   * Get the type of generator this is, generators provided by plugins return the plugin's type
    */
-  public abstract getGeneratorType(): GeneratorType;
+  public abstract getGeneratorType(): GeneratorType | string;
 
   /**
    * Return if this generator supports directories
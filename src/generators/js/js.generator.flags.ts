@@ -0,0 +1,22 @@
+import { setupCycleCheckOptions, setupModuleResolutionOptions } from '../ts/ts.generator.flags';
+
+export function setupGeneratorCommand(y) {
+  // imports are resolved and labelled in the same way as the ts generator, the ts_library specific flags aren't supported
+  setupModuleResolutionOptions(y);
+  setupCycleCheckOptions(y);
+
+  return y.option('js_library_rule', {
+    type: 'string',
+    description: 'The rule kind generated for javascript packages, the load site can be set via --load_mapping',
+    default: 'js_library',
+    requiresArg: true,
+    group: 'JS Generator'
+  });
+}
+
+export interface JsGeneratorFlags {
+  /**
+   * The rule kind generated for javascript packages, the load site can be set via --load_mapping
+   */
+  js_library_rule: string;
+}
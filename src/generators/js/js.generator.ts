@@ -0,0 +1,82 @@
+import { join, parse } from 'path';
+
+import { GeneratorType } from '../../flags';
+import { fatal } from '../../logger';
+import { Workspace } from '../../workspace';
+import { TsGenerator } from '../ts/ts.generator';
+
+const JS_EXTENSIONS = ['.js', '.mjs', '.cjs'];
+const DECLARATION_EXTENSION = '.d.ts';
+
+/**
+ * Generates a js_library for the javascript files in a directory, along with any .d.ts files that type them
+ * ESM imports and CommonJS require calls are labelled in the same way as the ts generator
+ */
+export class JsGenerator extends TsGenerator {
+  constructor(readonly workspace: Workspace) {
+    super(workspace);
+  }
+
+  async generate(): Promise<void> {
+    const files = this.workspace.readDirectory();
+    const flags = this.workspace.getFlags();
+
+    const jsFiles = this.filterTsFiles(files);
+
+    // declaration files that sit next to a javascript file, eg foo.js and foo.d.ts
+    const declarationFiles = files
+      .filter(file => file.endsWith(DECLARATION_EXTENSION))
+      .filter(file => {
+        const name = file.substring(0, file.length - DECLARATION_EXTENSION.length);
+        return jsFiles.some(jsFile => {
+          const parsed = parse(jsFile);
+          return join(parsed.dir, parsed.name) === name;
+        });
+      });
+
+    const srcs = files.filter(file => jsFiles.includes(file) || declarationFiles.includes(file));
+
+    this.checkForCycles();
+
+    const deps = new Set<string>();
+    srcs
+      .forEach(file => this.processFile(file, srcs, flags.npm_workspace_name, deps));
+
+    const label = this.workspace.getLabelForPath();
+
+    const jsLibrary = this.buildozer.newJsLibraryRule(flags.js_library_rule, label)
+      .setSrcs(srcs.map(path => parse(path).base))
+      .addDeps(Array.from(deps));
+
+    if (flags.default_visibility) {
+      jsLibrary.setVisibility(flags.default_visibility);
+    }
+  }
+
+  validate(): boolean {
+    if (!this.workspace.isDirectory()) {
+      fatal('Path passed to Javascript generator must be a directory');
+    }
+
+    return true;
+  }
+
+  getGeneratorType(): GeneratorType {
+    return GeneratorType.JS;
+  }
+
+  /**
+   * Spec targets aren't generated for javascript, so spec files are only excluded when --ignore_spec_files is set
+   */
+  protected generatesSpecTargets(): boolean {
+    return false;
+  }
+
+  protected isTsFile(file: string): boolean {
+    return JS_EXTENSIONS.includes(parse(file).ext);
+  }
+
+  protected isSpecFile(file: string): boolean {
+    return this.isTsFile(file) && /\.spec\.[cm]?js$/.test(file);
+  }
+}
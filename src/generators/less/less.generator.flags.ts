@@ -0,0 +1,30 @@
+import { setupGeneratorCommand as setupSassGeneratorCommand } from '../sass/sass.generator.flags';
+
+export function setupGeneratorCommand(y) {
+  // imports are resolved using the sass load paths
+  setupSassGeneratorCommand(y);
+
+  return y.option('less_library_suffix', {
+    type: 'string',
+    description: 'Suffix used for less_library rule names',
+    default: 'less_library',
+    group: 'Less Generator'
+  }).option('less_binary_suffix', {
+    type: 'string',
+    description: 'Suffix used for less_binary rule names',
+    default: 'less',
+    group: 'Less Generator'
+  });
+}
+
+export interface LessGeneratorFlags {
+  /**
+   * Suffix used for less_library rule names
+   */
+  less_library_suffix: string;
+
+  /**
+   * Suffix used for less_binary rule names
+   */
+  less_binary_suffix: string;
+}
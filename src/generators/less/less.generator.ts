@@ -0,0 +1,103 @@
+import { parse } from 'path';
+
+import { GeneratorType } from '../../flags';
+import { Workspace } from '../../workspace';
+import { collectStyleImports } from '../sass/imports';
+import { SassGenerator } from '../sass/sass.generator';
+
+const LESS_IMPORT_EXTENSIONS = ['.less', '.css'];
+
+/**
+ * Generates a less_library for less files that are imported by other files in their directory (or start with '_'),
+ * otherwise a less_binary. Imports are resolved in the same way as the sass generator
+ */
+export class LessGenerator extends SassGenerator {
+  // the files imported by another file in the same directory, keyed by directory
+  private readonly importedFiles: Map<string, Set<string>> = new Map<string, Set<string>>();
+
+  constructor(readonly workspace: Workspace) {
+    super(workspace);
+  }
+
+  getGeneratorType(): GeneratorType {
+    return GeneratorType.LESS;
+  }
+
+  protected isSourceFile(file: string): boolean {
+    return parse(file).ext === '.less';
+  }
+
+  protected generateForFile(path: string, useLocalDeps = false) {
+    const flags = this.workspace.getFlags();
+    const label = this.workspace.getLabelForPath();
+    const deps = this.calculateFileDeps(path, useLocalDeps);
+
+    const fileInfo = parse(path);
+    const isLessLib = !this.isBinaryFile(path);
+
+    const ruleName = this.workspace.calculateRuleName(fileInfo.base,
+      isLessLib ? flags.less_library_suffix : flags.less_binary_suffix);
+
+    if (isLessLib) {
+      const lessLib = this.buildozer.newLessLibraryRule(label.withTarget(ruleName))
+        .setSrcs([fileInfo.base])
+        .setDeps(deps);
+
+      if (flags.default_visibility) {
+        lessLib.setVisibility(flags.default_visibility);
+      }
+    } else {
+      const lessBin = this.buildozer.newLessBinaryRule(label.withTarget(ruleName))
+        .setSrc(fileInfo.base)
+        .setDeps(deps);
+
+      if (flags.default_visibility) {
+        lessBin.setVisibility(flags.default_visibility);
+      }
+    }
+  }
+
+  protected collectImports(source: string): string[] {
+    return collectStyleImports(source, true);
+  }
+
+  protected getLibrarySuffix(): string {
+    return this.workspace.getFlags().less_library_suffix;
+  }
+
+  protected getBinarySuffix(): string | undefined {
+    return this.workspace.getFlags().less_binary_suffix;
+  }
+
+  /**
+   * Less files are libraries when they start with '_' or are imported by another file in their directory,
+   * the same rule is used when generating the directory and when labelling imports of the file from elsewhere
+   */
+  protected isBinaryFile(path: string): boolean {
+    const fileInfo = parse(path);
+    return this.isSourceFile(path) && !this.isSassLib(fileInfo) && !this.collectImportedFiles(fileInfo.dir).has(path);
+  }
+
+  protected resolveImportCandidates(path: string): string[] {
+    return LESS_IMPORT_EXTENSIONS.includes(parse(path).ext) ? [path] : [`${path}.less`];
+  }
+
+  private collectImportedFiles(dir: string): Set<string> {
+    if (this.importedFiles.has(dir)) {
+      return this.importedFiles.get(dir);
+    }
+
+    const imported = new Set<string>();
+    this.workspace.readDirectoryAt(dir)
+      .filter(file => this.isSourceFile(file))
+      .forEach(file => {
+        this.collectImports(this.workspace.readFile(file))
+          .map(importPath => this.resolveImport(importPath, dir))
+          .filter(resolved => !!resolved && resolved !== file)
+          .forEach(resolved => imported.add(resolved));
+      });
+
+    this.importedFiles.set(dir, imported);
+    return imported;
+  }
+}
@@ -0,0 +1,20 @@
+import { setupGeneratorCommand as setupTsGeneratorCommand } from '../ts/ts.generator.flags';
+
+export function setupGeneratorCommand(y) {
+  setupTsGeneratorCommand(y);
+
+  return y.option('ng_package_name', {
+    type: 'string',
+    description: 'The name of the generated ng_package rule',
+    default: 'npm_package',
+    requiresArg: true,
+    group: 'Ng Package Generator'
+  });
+}
+
+export interface NgPackageGeneratorFlags {
+  /**
+   * The name of the generated ng_package rule
+   */
+  ng_package_name: string;
+}
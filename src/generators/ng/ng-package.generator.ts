@@ -0,0 +1,174 @@
+import { tsquery } from '@phenomnomnominal/tsquery';
+import { join, parse, relative } from 'path';
+import { ExportDeclaration, StringLiteral } from 'typescript';
+
+import { GeneratorType } from '../../flags';
+import { Label } from '../../label';
+import { fatal } from '../../logger';
+import { Workspace } from '../../workspace';
+import { TsGenerator } from '../ts/ts.generator';
+
+// files checked, in order, when the entry point isn't set in ng-package.json or package.json
+const DEFAULT_ENTRY_FILES = [
+  'public_api.ts',
+  'public-api.ts',
+  'index.ts',
+  'src/public_api.ts',
+  'src/public-api.ts',
+  'src/index.ts'
+];
+
+/**
+ * Generates an ng_package for an Angular library, the deps are the ng_module targets containing the files that are
+ * re-exported from the library's entry point, and the entry points of any secondary entry points
+ */
+export class NgPackageGenerator extends TsGenerator {
+  constructor(readonly workspace: Workspace) {
+    super(workspace);
+  }
+
+  async generate(): Promise<void> {
+    const flags = this.workspace.getFlags();
+    const dir = this.workspace.getPathAsDirectory();
+
+    const entryPoint = this.findEntryPoint(dir);
+    if (!entryPoint) {
+      fatal(`Unable to find an entry point for the library at ${dir}, ` +
+        `expected one of ng-package.json, package.json or ${DEFAULT_ENTRY_FILES.join(', ')}`);
+    }
+
+    const secondaryEntryPoints = this.findSecondaryEntryPoints(dir);
+
+    const deps = new Set<string>();
+    [entryPoint, ...secondaryEntryPoints.map(secondary => secondary.entryPoint)]
+      .forEach(entry => this.collectReExportedFiles(entry)
+        .forEach(file => deps.add(this.workspace.getPackageLabelForFile(file).toString())));
+
+    const pathLabel = this.workspace.getLabelForPath();
+    const label = pathLabel.withTarget(flags.ng_package_name);
+
+    this.buildozer.loadRule('ng_package', label);
+    this.buildozer.newRule('ng_package', label);
+    this.buildozer.setAttr('entry_point', this.calculateFileLabel(entryPoint).toString(), label);
+
+    if (secondaryEntryPoints.length) {
+      this.buildozer.addAttr('secondary_entry_points', secondaryEntryPoints.map(secondary => secondary.dir), label);
+    }
+
+    if (deps.size) {
+      const packageDeps = Array.from(deps)
+        .map(dep => Label.parseAbsolute(dep))
+        .map(dep => dep.getPackage() === pathLabel.getPackage() ? dep.getTarget(true) : dep.toString());
+
+      this.buildozer.addAttr('deps', packageDeps, label);
+    }
+
+    if (flags.default_visibility) {
+      this.buildozer.setVisibility([flags.default_visibility], label);
+    }
+  }
+
+  getGeneratorType(): GeneratorType {
+    return GeneratorType.NG_PACKAGE;
+  }
+
+  supportsDirectories(): boolean {
+    return true;
+  }
+
+  validate(): boolean {
+    if (!this.workspace.isDirectory()) {
+      fatal('Path passed to Angular package generator must be a directory');
+    }
+
+    return true;
+  }
+
+  /**
+   * Returns the workspace relative entry file for the library or secondary entry point in the directory
+   * The entryFile from ng-package.json, or the ngPackage key in package.json, is used if set
+   */
+  private findEntryPoint(dir: string): string | undefined {
+    const config = this.readNgPackageConfig(dir);
+    if (config && config.lib && config.lib.entryFile) {
+      const entryFile = join(dir, config.lib.entryFile);
+      if (this.workspace.fileExists(entryFile)) {
+        return entryFile;
+      }
+    }
+
+    return DEFAULT_ENTRY_FILES
+      .map(file => join(dir, file))
+      .find(file => this.workspace.fileExists(file));
+  }
+
+  /**
+   * Returns the ng-packagr config for the directory, or undefined if the directory isn't an entry point
+   */
+  private readNgPackageConfig(dir: string): { lib?: { entryFile?: string } } | undefined {
+    const ngPackageJson = join(dir, 'ng-package.json');
+    if (this.workspace.fileExists(ngPackageJson)) {
+      return this.workspace.readJsonFile(ngPackageJson);
+    }
+
+    const packageJson = join(dir, 'package.json');
+    if (this.workspace.fileExists(packageJson)) {
+      return this.workspace.readJsonFile(packageJson).ngPackage;
+    }
+  }
+
+  /**
+   * Returns the subdirectories of the library that are secondary entry points, that is have their own ng-package config
+   * The directories are relative to the library
+   */
+  private findSecondaryEntryPoints(dir: string): Array<{ dir: string, entryPoint: string }> {
+    const secondaryEntryPoints = [];
+
+    this.workspace.walkDirectoriesAt(dir)
+      .filter(current => current !== dir && !!this.readNgPackageConfig(current))
+      .forEach(current => {
+        const entryPoint = this.findEntryPoint(current);
+        if (entryPoint) {
+          secondaryEntryPoints.push({ dir: relative(dir, current), entryPoint });
+        }
+      });
+
+    return secondaryEntryPoints;
+  }
+
+  /**
+   * Follows the re-exports from the entry point, returning every workspace file visited
+   */
+  private collectReExportedFiles(entryPoint: string): string[] {
+    const visited = new Set<string>();
+    const queue = [entryPoint];
+
+    while (queue.length) {
+      const file = queue.shift();
+      if (visited.has(file)) { continue; }
+
+      visited.add(file);
+
+      const ast = tsquery.ast(this.workspace.readFile(file), file);
+      (tsquery(ast, 'ExportDeclaration') as ExportDeclaration[])
+        .filter(node => !!node.moduleSpecifier)
+        .map(node => (node.moduleSpecifier as StringLiteral).text)
+        .map(moduleSpecifier => this.moduleResolver.resolve(moduleSpecifier, parse(file).dir))
+        .filter(resolved => !!resolved && !resolved.split('/').includes('node_modules'))
+        .forEach(resolved => queue.push(resolved));
+    }
+
+    return Array.from(visited);
+  }
+
+  /**
+   * Returns the label for the entry file, which is in the library package or a package below it
+   */
+  private calculateFileLabel(file: string): Label {
+    const pkg = this.workspace.getPathAsDirectory();
+    const owner = this.workspace.findOwningPackage(parse(file).dir);
+    const filePkg = owner !== undefined && (owner === pkg || owner.startsWith(pkg + '/')) ? owner : pkg;
+
+    return Label.parseAbsolute(`//${filePkg}:${relative(filePkg, file)}`);
+  }
+}
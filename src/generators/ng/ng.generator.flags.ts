@@ -1,5 +1,10 @@
 import { setupGeneratorCommand as setupTsGeneratorCommand } from '../ts/ts.generator.flags';
 
+export enum NgModuleGranularity {
+  PACKAGE = 'package',
+  MODULE = 'module'
+}
+
 export function setupGeneratorCommand(y) {
   setupTsGeneratorCommand(y);
 
@@ -13,6 +18,24 @@ export function setupGeneratorCommand(y) {
     requiresArg: true,
     description: 'The package from which to load the macro for ng_module_bundle',
     group: 'Ng Generator'
+  }).option('ng_test_rule', {
+    type: 'string',
+    description: 'The rule kind used to run the spec files of an ng_module',
+    default: 'karma_web_test_suite',
+    requiresArg: true,
+    group: 'Ng Generator'
+  }).option('ng_module_granularity', {
+    type: 'string',
+    description: 'Generate a single ng_module for the package, or an ng_module for each file containing an @NgModule and its declarations',
+    choices: Object.values(NgModuleGranularity),
+    default: NgModuleGranularity.PACKAGE,
+    requiresArg: true,
+    group: 'Ng Generator'
+  }).option('ng_infer_template_deps', {
+    type: 'boolean',
+    description: 'Add deps for the components, directives and pipes used in templates. Builds an index of every TypeScript file in the workspace',
+    default: false,
+    group: 'Ng Generator'
   });
 }
 
@@ -26,4 +49,19 @@ export interface NgGeneratorFlags {
    * The package from which to load the macro for ng_module_bundle
    */
   ng_module_bundle_load: string;
+
+  /**
+   * The rule kind used to run the spec files of an ng_module
+   */
+  ng_test_rule: string;
+
+  /**
+   * Generate a single ng_module for the package, or an ng_module for each file containing an @NgModule and its declarations
+   */
+  ng_module_granularity: NgModuleGranularity;
+
+  /**
+   * Add deps for the components, directives and pipes used in templates. Builds an index of every TypeScript file in the workspace
+   */
+  ng_infer_template_deps: boolean;
 }
@@ -1,23 +1,43 @@
 import { tsquery } from '@phenomnomnominal/tsquery';
-import { parse } from 'path';
-import { StringLiteral } from 'typescript';
+import { join, parse, relative } from 'path';
+import { ClassDeclaration, Identifier, StringLiteral } from 'typescript';
 
 import { GeneratorType } from '../../flags';
-import { fatal } from '../../logger';
+import { Label } from '../../label';
+import { fatal, warn } from '../../logger';
 import { Workspace } from '../../workspace';
 import { SassGenerator } from '../sass/sass.generator';
+import { NgModuleGranularity } from './ng.generator.flags';
 import { TsGenerator } from '../ts/ts.generator';
+import { NgSelectorIndex } from './selector-index';
 
 const STYLE_URLS_QUERY = 'Decorator:has(Decorator > CallExpression[expression.name="Component"]) PropertyAssignment:has([name="styleUrls"]) ArrayLiteralExpression StringLiteral';
+const STYLES_QUERY = 'Decorator:has(Decorator > CallExpression[expression.name="Component"]) PropertyAssignment:has([name="styles"]) ArrayLiteralExpression > :matches(StringLiteral, NoSubstitutionTemplateLiteral)';
+const NG_MODULE_QUERY = 'Decorator > CallExpression[expression.name="NgModule"]';
+const NG_MODULE_DECLARATIONS_QUERY = 'Decorator > CallExpression[expression.name="NgModule"] PropertyAssignment:has([name="declarations"]) > ArrayLiteralExpression > Identifier';
 const TEMPLATE_URL_QUERY = 'Decorator:has(Decorator > CallExpression[expression.name="Component"]) PropertyAssignment:has([name="templateUrl"]) StringLiteral';
+const TEMPLATE_QUERY = 'Decorator:has(Decorator > CallExpression[expression.name="Component"]) PropertyAssignment:has([name="template"]) > :matches(StringLiteral, NoSubstitutionTemplateLiteral)';
+
+type StyleResult = {
+  // label of the sass_binary rule for the style
+  label: Label,
+  // path of the style relative to the package of the label
+  src: string,
+  deps: Set<string>
+};
 
 type TsFileResultContainer = {
   tsDeps: Set<string>
-  styles: Map<string, { deps: Set<string>, name: string }>
+  // styles keyed by their workspace relative path
+  styles: Map<string, StyleResult>
   assets: Set<string>
+  // content of the templates used by the components, both templateUrl files and inline templates
+  templates: string[]
 };
 
 export class NgGenerator extends TsGenerator {
+  private selectorIndex: NgSelectorIndex;
+
   constructor(readonly workspace: Workspace) {
     super(workspace);
   }
@@ -26,30 +46,50 @@ export class NgGenerator extends TsGenerator {
     const files = this.workspace.readDirectory();
     const flags = this.workspace.getFlags();
 
-    const tsFiles = files
-      .filter(file => file.endsWith('.ts'))
-      .filter(file => !(flags.ignore_spec_files && file.endsWith('.spec.ts')));
+    const tsFiles = this.filterTsFiles(files);
 
-    const resultContainer: TsFileResultContainer = {
-      tsDeps: new Set(),
-      styles: new Map(),
-      assets: new Set()
-    };
+    this.checkForCycles();
+
+    if (this.getGeneratorType() === GeneratorType.NG && flags.ng_module_granularity === NgModuleGranularity.MODULE) {
+      this.generateNgModulePerNgModule(files, tsFiles);
+      return;
+    }
+
+    const resultContainer = NgGenerator.createResultContainer();
 
     tsFiles
-      .forEach((file, i, arr) => this.processTsFile(file, arr, flags.npm_workspace_name, flags.suffix_separator, resultContainer));
+      .forEach((file, i, arr) => this.processTsFile(file, arr, flags.npm_workspace_name, resultContainer));
+
+    if (flags.ng_infer_template_deps) {
+      this.calculateTemplateDependencyLabels(resultContainer.templates)
+        .forEach(label => resultContainer.tsDeps.add(label));
+    }
 
     if (this.getGeneratorType() === GeneratorType.NG) {
       this.generateNgModule(files, tsFiles, resultContainer);
     } else {
       this.generateNgModuleBundle(files, tsFiles, resultContainer);
     }
+
+    if (flags.generate_spec_targets) {
+      const label = tsFiles.length ? this.workspace.getLabelForPath() : undefined;
+      this.generateSpecTargets(files, label, flags.ng_test_rule, 'deps');
+    }
   }
 
   getGeneratorType(): GeneratorType {
     return this.workspace.getFlags().type;
   }
 
+  private static createResultContainer(): TsFileResultContainer {
+    return {
+      tsDeps: new Set(),
+      styles: new Map(),
+      assets: new Set(),
+      templates: []
+    };
+  }
+
   supportsDirectories(): boolean {
     return true;
   }
@@ -62,110 +102,291 @@ export class NgGenerator extends TsGenerator {
     return true;
   }
 
-  private processTsFile(filePath: string, tsFiles: string[], npmWorkspace: string, suffixSeparator: string,
-                        resultContainer: TsFileResultContainer) {
-    const file = this.workspace.readFile(filePath);
-    const ast = tsquery.ast(file);
+  /**
+   * Generates an ng_module for each file containing an @NgModule, containing the files that declare the components,
+   * directives and pipes in its declarations. Any remaining files are put in an ng_module named after the package
+   * Imports between the files of different targets become deps between the targets
+   */
+  private generateNgModulePerNgModule(allFiles: string[], tsFiles: string[]) {
+    const flags = this.workspace.getFlags();
+    const pathLabel = this.workspace.getLabelForPath();
 
-    this.processTsFileAst(ast, tsFiles, npmWorkspace, resultContainer.tsDeps);
+    const targets = this.assignFilesToNgModules(tsFiles);
 
-    const templateUrlNode = tsquery(ast, TEMPLATE_URL_QUERY)[0] as StringLiteral;
+    const groups = new Map<string, string[]>();
+    tsFiles.forEach(file => {
+      const target = targets.get(file).getTarget();
+      groups.set(target, [...(groups.get(target) || []), file]);
+    });
 
-    if (templateUrlNode && templateUrlNode.text.startsWith('./')) {
-      const url = templateUrlNode.text;
-      const splits = url.split('/');
+    let generateThemes = true;
+    groups.forEach((groupFiles, target) => {
+      const label = pathLabel.withTarget(target);
+      const resultContainer = NgGenerator.createResultContainer();
+      const packageDeps = new Set<string>();
 
-      if (splits.length === 2 || splits.length === 0) {
-        // TODO(matt) internally there are some templates that pull from the parent directory
-        // and bzl gen handles it in a hacky way - don't port this behaviour yet
-        // additionally - ensure that the path only contains one (or none) '/', meaning that it's in the same package
+      groupFiles
+        .forEach(file => this.processTsFile(file, tsFiles, flags.npm_workspace_name, resultContainer, packageDeps));
 
-        // we don't need a label for the html file, but we do need to strip a leading './' if present
-        resultContainer.assets.add(templateUrlNode.text.replace(/\.\//, ''));
+      if (flags.ng_infer_template_deps) {
+        this.calculateTemplateDependencyLabels(resultContainer.templates, targets)
+          .filter(dep => dep !== label.getTarget(true))
+          .forEach(dep => resultContainer.tsDeps.add(dep));
       }
+
+      Array.from(packageDeps)
+        .map(file => targets.get(file))
+        .filter(dep => dep.toString() !== label.toString())
+        .forEach(dep => resultContainer.tsDeps.add(dep.getTarget(true)));
+
+      // themes belong to the package rather than a module, so only generate them once
+      this.generateNgModule(allFiles, groupFiles, resultContainer, label, generateThemes);
+      generateThemes = false;
+    });
+
+    if (flags.generate_spec_targets) {
+      this.generateSpecTargets(allFiles, undefined, flags.ng_test_rule, 'deps', targets);
     }
+  }
+
+  /**
+   * Returns the ng_module target for each of the files
+   * Files with an @NgModule get their own target, which the files declaring the classes in its declarations are added to
+   */
+  private assignFilesToNgModules(tsFiles: string[]): Map<string, Label> {
+    const pathLabel = this.workspace.getLabelForPath();
+
+    const classFiles = new Map<string, string>();
+    const moduleDeclarations = new Map<string, string[]>();
 
-    const styleUrlsNodes = tsquery(ast, STYLE_URLS_QUERY) as StringLiteral[];
-
-    if (styleUrlsNodes && styleUrlsNodes.length) {
-      const abstractStyles = styleUrlsNodes
-        .map(node => node.text)
-        .filter(text => text.startsWith('..'));
-
-      if (abstractStyles.length) {
-        // the component has a style imported from a parent directory
-        // we can't generate files into the parent directory under bazel, so throw an error here
-        // showing the user how this can be fixed
-        const message = `Unable to generate target Angular component in file ${ filePath } as it contains a reference ` +
-          `to the following style sheets imported from the parent directory:\n\t${ abstractStyles.join('\n\t') }\n` +
-          `This can be fixed by using adding an @import for each sass file`;
-        fatal(message);
+    tsFiles.forEach(file => {
+      const ast = tsquery.ast(this.workspace.readFile(file), file);
+
+      (tsquery(ast, 'ClassDeclaration') as ClassDeclaration[])
+        .filter(node => !!node.name)
+        .forEach(node => classFiles.set(node.name.text, file));
+
+      const declarations = (tsquery(ast, NG_MODULE_DECLARATIONS_QUERY) as Identifier[])
+        .map(node => node.text);
+
+      if (tsquery(ast, NG_MODULE_QUERY).length) {
+        moduleDeclarations.set(file, [...(moduleDeclarations.get(file) || []), ...declarations]);
       }
+    });
 
-      const scssFiles = styleUrlsNodes
-        .map(node => node.text)
-        .filter(text => text.startsWith('./'));
+    const targets = new Map<string, Label>();
+    moduleDeclarations.forEach((declarations, moduleFile) =>
+      targets.set(moduleFile, pathLabel.withTarget(this.workspace.calculateRuleName(moduleFile))));
+
+    moduleDeclarations.forEach((declarations, moduleFile) => {
+      declarations
+        .filter(declaration => classFiles.has(declaration))
+        .map(declaration => classFiles.get(declaration))
+        .forEach(file => {
+          const target = targets.get(moduleFile);
+          if (!targets.has(file)) {
+            targets.set(file, target);
+          } else if (targets.get(file).toString() !== target.toString()) {
+            warn(`${parse(file).base} is declared in more than one NgModule, it will only be added to ${targets.get(file)}`);
+          }
+        });
+    });
 
-      const sassGen = new SassGenerator(this.workspace);
-      resultContainer.styles = this.calculateScssDependencyLabels(scssFiles, sassGen, suffixSeparator, 'styles');
+    // anything not declared in a module, eg services, is added to the default target for the package
+    tsFiles
+      .filter(file => !targets.has(file))
+      .forEach(file => targets.set(file, pathLabel));
+
+    return targets;
+  }
+
+  private processTsFile(filePath: string, tsFiles: string[], npmWorkspace: string,
+                        resultContainer: TsFileResultContainer, packageDeps?: Set<string>) {
+    const file = this.workspace.readFile(filePath);
+    const ast = tsquery.ast(file, filePath);
+
+    this.processTsFileAst(ast, tsFiles, npmWorkspace, resultContainer.tsDeps, packageDeps);
+
+    const fileDir = parse(filePath).dir;
+    const templateUrlNode = tsquery(ast, TEMPLATE_URL_QUERY)[0] as StringLiteral;
+
+    if (templateUrlNode && this.isRelativeUrl(templateUrlNode.text)) {
+      const templatePath = join(fileDir, templateUrlNode.text);
+      resultContainer.assets.add(this.calculateTemplateAsset(templatePath));
+
+      if (this.workspace.fileExists(templatePath)) {
+        resultContainer.templates.push(this.workspace.readFile(templatePath));
+      }
     }
+
+    (tsquery(ast, TEMPLATE_QUERY) as StringLiteral[])
+      .forEach(node => resultContainer.templates.push(node.text));
+
+    const sassGen = new SassGenerator(this.workspace);
+
+    const styleUrls = (tsquery(ast, STYLE_URLS_QUERY) as StringLiteral[])
+      .map(node => node.text)
+      .filter(text => this.isRelativeUrl(text))
+      .map(text => join(fileDir, text));
+
+    // stylesheets imported from inline styles also need to be compiled
+    const inlineStyleImports = (tsquery(ast, STYLES_QUERY) as StringLiteral[])
+      .map(node => sassGen.calculateDeps(node.text, false))
+      .reduce((imports, deps) => imports.concat(deps), [])
+      .filter(imp => this.isRelativeUrl(imp))
+      .map(imp => sassGen.resolveImport(imp, fileDir))
+      .filter(path => !!path);
+
+    const scssFiles = Array.from(new Set([...styleUrls, ...inlineStyleImports]));
+
+    // a package can contain many components, so merge the styles rather than replacing them
+    this.calculateScssDependencyLabels(scssFiles, sassGen, 'styles')
+      .forEach((style, path) => resultContainer.styles.set(path, style));
+  }
+
+  /**
+   * Returns the labels of the packages that declare the components, directives and pipes used in the templates
+   * Declarations in this package are ignored, unless the package is split into targets given by 'fileTargets'
+   */
+  private calculateTemplateDependencyLabels(templates: string[], fileTargets?: Map<string, Label>): string[] {
+    if (!templates.length) { return []; }
+
+    if (!this.selectorIndex) {
+      this.selectorIndex = NgSelectorIndex.build(this.workspace);
+    }
+
+    const pkg = this.workspace.getPathAsDirectory();
+    const labels = new Set<string>();
+
+    templates
+      .map(template => this.selectorIndex.findDeclaringFiles(template))
+      .reduce((files, declaringFiles) => files.concat(declaringFiles), [])
+      .filter(file => {
+        if (fileTargets && fileTargets.has(file)) {
+          labels.add(fileTargets.get(file).getTarget(true));
+          return false;
+        }
+        return true;
+      })
+      .map(file => this.workspace.getPackageLabelForFile(file))
+      .filter(label => label.getPackage() !== pkg)
+      .forEach(label => labels.add(label.toString()));
+
+    return Array.from(labels);
+  }
+
+  private isRelativeUrl(url: string): boolean {
+    return !!url && !url.startsWith('/') && !/^[a-z]+:/i.test(url);
+  }
+
+  /**
+   * Returns true if the workspace relative path is part of the package being generated,
+   * that is, it's in the package directory or a subdirectory that isn't its own package
+   */
+  private isInPackage(path: string): boolean {
+    const pkg = this.workspace.getPathAsDirectory();
+    const dir = parse(path).dir;
+
+    if (dir === pkg) { return true; }
+    if (!dir.startsWith(pkg + '/')) { return false; }
+
+    const owner = this.workspace.findOwningPackage(dir);
+    return owner === undefined || owner === pkg;
+  }
+
+  /**
+   * Returns the value to add to the ng_module assets for a template
+   * Templates in this package are referenced by path, templates owned by other packages get a filegroup
+   * created in that package which is then referenced by label
+   */
+  private calculateTemplateAsset(path: string): string {
+    const pkg = this.workspace.getPathAsDirectory();
+
+    if (this.isInPackage(path)) {
+      return relative(pkg, path);
+    }
+
+    const label = this.workspace.getLabelForFile(path, 'template');
+
+    this.buildozer.newFilegroup(label)
+      .setSrcs([relative(label.getPackage(), path)])
+      .setVisibility(this.workspace.getLabelForPath().withTarget('__pkg__').toString());
+
+    return label.toString();
+  }
+
+  /**
+   * Returns the label for a sass_binary rule for the style,
+   * styles owned by other packages have their rule created in that package
+   */
+  private calculateStyleLabel(path: string, labelSuffix: string): Label {
+    if (this.isInPackage(path)) {
+      return this.workspace.getLabelForPath().withTarget(this.workspace.calculateRuleName(path, labelSuffix));
+    }
+
+    return this.workspace.getLabelForFile(path, labelSuffix);
   }
 
-  private calculateScssDependencyLabels(scssFiles: string[], sassGen: SassGenerator, suffixSeparator: string,
-                                        labelSuffix: string): Map<string, { deps: Set<string>, name: string }> {
+  private calculateScssDependencyLabels(scssFiles: string[], sassGen: SassGenerator,
+                                        labelSuffix: string): Map<string, StyleResult> {
     if (!scssFiles.length) { return new Map(); }
 
-    const results = new Map<string, { deps: Set<string>, name: string }>();
+    const results = new Map<string, StyleResult>();
     scssFiles
       .forEach(path => {
         const file = this.workspace.readFile(path);
+        const dir = parse(path).dir;
+
+        // imports are relative to the stylesheet
         const labels = sassGen.calculateDeps(file, false)
-          .map(imp => sassGen.calculateDependencyLabel(imp, labelSuffix));
+          .map(imp => sassGen.calculateDependencyLabel(imp, labelSuffix, dir));
 
-        const name = sassGen.calculateDependencyLabel(path, labelSuffix);
+        const label = this.calculateStyleLabel(path, labelSuffix);
 
-        results.set(
-          path
-            .replace(/'/g, '')
-            .replace(/"/g, '')
-            .replace(/\.\//g, ''), { deps: new Set(labels), name }
-        );
+        results.set(path, { label, src: relative(label.getPackage(), path), deps: new Set(labels) });
       });
 
     return results;
   }
 
-  private generateNgModule(allFiles: string[], tsFiles: string[], resultContainer: TsFileResultContainer) {
+  /**
+   * Generates the sass_binary for the style, if the style is in another package then this package is given visibility of it
+   */
+  private generateStyleBinary(style: StyleResult) {
+    const pathLabel = this.workspace.getLabelForPath();
+
+    const sassBinary = this.buildozer.newSassBinaryRule(style.label)
+      .setSrc(style.src)
+      .setDeps(Array.from(style.deps));
+
+    if (style.label.getPackage() !== pathLabel.getPackage()) {
+      sassBinary.setVisibility(pathLabel.withTarget('__pkg__').toString());
+    }
+  }
+
+  private generateNgModule(allFiles: string[], tsFiles: string[], resultContainer: TsFileResultContainer,
+                           label = this.workspace.getLabelForPath(), generateThemes = true) {
     const flags = this.workspace.getFlags();
 
     const styleRules = Array.from(resultContainer.styles.values())
-      .map(value => value.name);
+      .map(value => value.label.toString());
 
     // generate the ng_module
-    this.buildozer.newNgModuleRule(this.workspace.getLabelForPath())
+    this.buildozer.newNgModuleRule(label)
       .setSrcs(tsFiles.map(file => file.split('/').pop()))
       .addDeps(Array.from(resultContainer.tsDeps))
       .addAssets(Array.from(resultContainer.assets).concat(styleRules))
       .setVisibility(flags.default_visibility);
 
     // generate the sass_binary for styles
-    resultContainer.styles.forEach((data, src) => {
-      this.buildozer.newSassBinaryRule(this.workspace.getLabelForPath().withTarget(data.name.split(':')[1]))
-        .setSrc(src)
-        .setDeps(Array.from(data.deps));
-
-      // TODO(matt): if there are deps on a sass import in the same package we should be able to generate it here
-    });
+    // TODO(matt): if there are deps on a sass import in the same package we should be able to generate it here
+    resultContainer.styles.forEach(style => this.generateStyleBinary(style));
 
-    if (flags.ng_generate_theme_binary) {
+    if (flags.ng_generate_theme_binary && generateThemes) {
       const themeFiles = allFiles.filter(file => file.endsWith('.theme.scss') && !file.startsWith('_'));
-      const themes = this.calculateScssDependencyLabels(themeFiles, new SassGenerator(this.workspace), flags.suffix_separator, 'theme');
+      const themes = this.calculateScssDependencyLabels(themeFiles, new SassGenerator(this.workspace), 'theme');
 
-      themes.forEach((data, src) => {
-        this.buildozer.newSassBinaryRule(this.workspace.getLabelForPath().withTarget(data.name.split(':')[1]))
-          .setSrc(parse(src).base)
-          .setDeps(Array.from(data.deps));
-      });
+      themes.forEach(theme => this.generateStyleBinary(theme));
     }
   }
 
@@ -178,31 +399,49 @@ export class NgGenerator extends TsGenerator {
     this.buildozer.addAttr('srcs', tsFiles.map(file => file.split('/').pop()), pathLabel);
     this.buildozer.addAttr('deps', Array.from(resultContainer.tsDeps), pathLabel);
 
-    if (resultContainer.styles.size) {
-      // ng_module macro only supports one style
-      const style = Array.from(resultContainer.styles.entries())[0];
-      this.buildozer.setAttr('style', style[0], pathLabel);
+    // styles owned by other packages can't be passed to the macro, so a sass_binary is created for them instead
+    const styles = Array.from(resultContainer.styles.values());
+    const packageStyles = styles.filter(style => style.label.getPackage() === pathLabel.getPackage());
+    const externalStyles = styles.filter(style => style.label.getPackage() !== pathLabel.getPackage());
 
-      if (style[1].deps.size) {
-        this.buildozer.addAttr('style_deps', Array.from(style[1].deps), pathLabel);
+    if (packageStyles.length) {
+      this.buildozer.addAttr('styles', packageStyles.map(style => style.src), pathLabel);
+
+      const styleDeps = this.mergeStyleDeps(packageStyles);
+      if (styleDeps.length) {
+        this.buildozer.addAttr('style_deps', styleDeps, pathLabel);
       }
     }
 
-    if (resultContainer.assets.size) {
-      this.buildozer.addAttr('assets', Array.from(resultContainer.assets), pathLabel);
+    externalStyles.forEach(style => this.generateStyleBinary(style));
+
+    const assets = Array.from(resultContainer.assets)
+      .concat(externalStyles.map(style => style.label.toString()));
+
+    if (assets.length) {
+      this.buildozer.addAttr('assets', assets, pathLabel);
     }
 
     if (flags.ng_generate_theme_binary) {
       const themeFiles = allFiles.filter(file => file.endsWith('.theme.scss') && !file.startsWith('_'));
       if (themeFiles.length) {
-        const themes = this.calculateScssDependencyLabels(themeFiles, new SassGenerator(this.workspace), flags.suffix_separator, 'theme');
-        this.buildozer.setAttr('theme', themeFiles[0].split('/').pop(), pathLabel);
+        const themes = Array.from(this.calculateScssDependencyLabels(themeFiles, new SassGenerator(this.workspace), 'theme').values());
+        this.buildozer.addAttr('themes', themes.map(theme => theme.src), pathLabel);
 
-        const theme = themes.get(themeFiles[0]);
-        if (theme.deps.size) {
-          this.buildozer.addAttr('theme_deps', Array.from(theme.deps), pathLabel);
+        const themeDeps = this.mergeStyleDeps(themes);
+        if (themeDeps.length) {
+          this.buildozer.addAttr('theme_deps', themeDeps, pathLabel);
         }
       }
     }
   }
+
+  /**
+   * The macro takes a single list of deps for all styles (or themes), so merge them together
+   */
+  private mergeStyleDeps(styles: StyleResult[]): string[] {
+    const deps = new Set<string>();
+    styles.forEach(style => style.deps.forEach(dep => deps.add(dep)));
+    return Array.from(deps);
+  }
 }
@@ -0,0 +1,117 @@
+import { tsquery } from '@phenomnomnominal/tsquery';
+import { StringLiteral } from 'typescript';
+
+import { Workspace } from '../../workspace';
+
+const SELECTOR_QUERY = ['Component', 'Directive']
+  .map(decorator => `Decorator:has(Decorator > CallExpression[expression.name="${decorator}"]) PropertyAssignment:has([name="selector"]) > StringLiteral`)
+  .join(', ');
+const PIPE_NAME_QUERY = 'Decorator:has(Decorator > CallExpression[expression.name="Pipe"]) PropertyAssignment:has([name="name"]) > StringLiteral';
+
+// matches an opening tag, capturing the element name and the attributes, quoted attribute values may contain '>'
+const TAG_REGEX = /<([a-zA-Z][\w-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/g;
+const ATTRIBUTE_REGEX = /([^\s"'>\/=]+)(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?/g;
+// a single '|' followed by an identifier, ignoring '||'
+const PIPE_REGEX = /(?<!\|)\|(?!\|)\s*([a-zA-Z_$][\w$]*)/g;
+
+/**
+ * Index of the selectors of every @Component and @Directive, and the names of every @Pipe, mapped to the
+ * workspace relative file that declares them.
+ *
+ * Used to find the declarations used by a template, as these don't show up as TypeScript imports
+ */
+export class NgSelectorIndex {
+  private readonly elements: Map<string, string> = new Map<string, string>();
+  private readonly attributes: Map<string, string> = new Map<string, string>();
+  private readonly pipes: Map<string, string> = new Map<string, string>();
+
+  /**
+   * Builds the index from every TypeScript file in the workspace
+   */
+  static build(workspace: Workspace): NgSelectorIndex {
+    const index = new NgSelectorIndex();
+
+    workspace.walkDirectoriesAt('')
+      .forEach(dir => workspace.readDirectoryAt(dir)
+        .filter(file => file.endsWith('.ts') && !file.endsWith('.d.ts') && !file.endsWith('.spec.ts'))
+        .forEach(file => index.addFile(file, workspace.readFile(file))));
+
+    return index;
+  }
+
+  /**
+   * Adds the declarations in the file to the index
+   */
+  addFile(path: string, content: string) {
+    // avoid parsing files that can't contain a declaration
+    if (!/@(Component|Directive|Pipe)\b/.test(content)) { return; }
+
+    const ast = tsquery.ast(content, path);
+
+    (tsquery(ast, SELECTOR_QUERY) as StringLiteral[])
+      .forEach(node => this.addSelector(node.text, path));
+
+    (tsquery(ast, PIPE_NAME_QUERY) as StringLiteral[])
+      .forEach(node => this.pipes.set(node.text, path));
+  }
+
+  /**
+   * Returns the files that declare the elements, attribute directives and pipes used in the template
+   */
+  findDeclaringFiles(template: string): string[] {
+    const files = new Set<string>();
+    const add = (map: Map<string, string>, key: string) => {
+      if (map.has(key)) { files.add(map.get(key)); }
+    };
+
+    let tag: RegExpExecArray;
+    TAG_REGEX.lastIndex = 0;
+    while ((tag = TAG_REGEX.exec(template)) !== null) {
+      add(this.elements, tag[1]);
+
+      let attribute: RegExpExecArray;
+      ATTRIBUTE_REGEX.lastIndex = 0;
+      while ((attribute = ATTRIBUTE_REGEX.exec(tag[2])) !== null) {
+        add(this.attributes, NgSelectorIndex.normalizeAttribute(attribute[1]));
+      }
+    }
+
+    let pipe: RegExpExecArray;
+    PIPE_REGEX.lastIndex = 0;
+    while ((pipe = PIPE_REGEX.exec(template)) !== null) {
+      add(this.pipes, pipe[1]);
+    }
+
+    return Array.from(files);
+  }
+
+  /**
+   * Strips the binding syntax from an attribute, eg [(ngModel)] and *ngIf
+   */
+  private static normalizeAttribute(attribute: string): string {
+    return attribute.replace(/^(\[\(|\[|\(|\*)/, '').replace(/(\)\]|\]|\))$/, '');
+  }
+
+  /**
+   * Adds each part of a selector, eg 'app-card' or 'button[appHighlight], a[appHighlight]'
+   * Custom elements are indexed by their name, otherwise by the attributes in the selector
+   */
+  private addSelector(selector: string, path: string) {
+    selector.split(',')
+      .map(part => part.replace(/:not\([^)]*\)/g, '').trim())
+      .forEach(part => {
+        const element = (part.match(/^[a-zA-Z][\w-]*/) || [])[0];
+
+        if (element && element.includes('-')) {
+          this.elements.set(element, path);
+          return;
+        }
+
+        const attributes = /\[([^\]=~|^$*]+)/g;
+        let attribute: RegExpExecArray;
+        while ((attribute = attributes.exec(part)) !== null) {
+          this.attributes.set(attribute[1].trim(), path);
+        }
+      });
+  }
+}
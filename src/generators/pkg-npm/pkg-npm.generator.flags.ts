@@ -0,0 +1,41 @@
+import { fatal } from '../../logger';
+import { setupGeneratorCommand as setupTsGeneratorCommand } from '../ts/ts.generator.flags';
+
+export function setupGeneratorCommand(y) {
+  setupTsGeneratorCommand(y);
+
+  return y.option('pkg_npm_name', {
+    type: 'string',
+    description: 'The name of the generated pkg_npm rule',
+    default: 'npm_package',
+    requiresArg: true,
+    group: 'pkg_npm Generator'
+  }).option('pkg_npm_substitution', {
+    type: 'array',
+    description: 'Substitutions made in the published files, in the form 0.0.0-PLACEHOLDER={BUILD_SCM_VERSION}',
+    default: [],
+    requiresArg: true,
+    coerce: (substitutions: string[]) => new Map(substitutions.map(substitution => {
+      // split on the first '=' only, as the replacement may contain one
+      const index = substitution.indexOf('=');
+      if (index < 1) {
+        fatal(`Invalid --pkg_npm_substitution '${substitution}', expected the form key=value`);
+      }
+      return [substitution.substring(0, index), substitution.substring(index + 1)] as [string, string];
+    })),
+    group: 'pkg_npm Generator'
+  });
+}
+
+export interface PkgNpmGeneratorFlags {
+  /**
+   * The name of the generated pkg_npm rule
+   */
+  pkg_npm_name: string;
+
+  /**
+   * Substitutions made in the published files, set as the 'substitutions' of the pkg_npm
+   * Parsed in the form 0.0.0-PLACEHOLDER={BUILD_SCM_VERSION}
+   */
+  pkg_npm_substitution: Map<string, string>;
+}
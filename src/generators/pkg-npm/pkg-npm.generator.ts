@@ -0,0 +1,133 @@
+import { join } from 'path';
+
+import { GeneratorType } from '../../flags';
+import { Label } from '../../label';
+import { fatal, warn } from '../../logger';
+import { Workspace } from '../../workspace';
+import { TsGenerator } from '../ts/ts.generator';
+
+// files published alongside package.json when they exist
+const PACKAGE_FILES = ['package.json', 'README.md', 'LICENSE', 'CHANGELOG.md'];
+
+export interface DependencyMismatches {
+  /**
+   * Packages in 'dependencies' that aren't imported by any file in the package
+   */
+  unused: string[];
+
+  /**
+   * Packages imported by files in the package that aren't in 'dependencies' or 'peerDependencies'
+   */
+  undeclared: string[];
+}
+
+/**
+ * Generates a pkg_npm for a directory with its own package.json, depending on the library targets of the directory
+ * and any packages below it. The 'dependencies' in package.json are checked against the npm packages that are imported
+ */
+export class PkgNpmGenerator extends TsGenerator {
+  constructor(readonly workspace: Workspace) {
+    super(workspace);
+  }
+
+  async generate(): Promise<void> {
+    const flags = this.workspace.getFlags();
+    const dir = this.workspace.getPathAsDirectory();
+
+    const sources = this.collectSourceFiles(dir);
+
+    const label = this.workspace.getLabelForPath().withTarget(flags.pkg_npm_name);
+
+    this.buildozer.loadRule('pkg_npm', label);
+    this.buildozer.newRule('pkg_npm', label);
+    this.buildozer.addAttr('srcs', PACKAGE_FILES.filter(file => this.workspace.fileExists(join(dir, file))), label);
+
+    const deps = new Set<string>();
+    sources.forEach(file => deps.add(this.workspace.getPackageLabelForFile(file).toString()));
+
+    if (deps.size) {
+      const pkg = this.workspace.getLabelForPath().getPackage();
+      const packageDeps = Array.from(deps)
+        .map(dep => Label.parseAbsolute(dep))
+        .map(dep => dep.getPackage() === pkg ? dep.getTarget(true) : dep.toString());
+
+      this.buildozer.addAttr('deps', packageDeps, label);
+    }
+
+    if (flags.pkg_npm_substitution.size) {
+      this.buildozer.setDictAttr('substitutions', flags.pkg_npm_substitution, label);
+    }
+
+    if (flags.default_visibility) {
+      this.buildozer.setVisibility([flags.default_visibility], label);
+    }
+
+    const mismatches = this.calculateDependencyMismatches();
+
+    mismatches.unused
+      .forEach(dep => warn(`${dep} is declared in the dependencies of ${join(dir, 'package.json')} but is not imported`));
+
+    mismatches.undeclared
+      .forEach(dep => warn(`${dep} is imported but is not declared in the dependencies of ${join(dir, 'package.json')}`));
+  }
+
+  getGeneratorType(): GeneratorType {
+    return GeneratorType.PKG_NPM;
+  }
+
+  supportsDirectories(): boolean {
+    return true;
+  }
+
+  validate(): boolean {
+    if (!this.workspace.isDirectory()) {
+      fatal('Path passed to pkg_npm generator must be a directory');
+    }
+
+    if (!this.workspace.fileExists(join(this.workspace.getPathAsDirectory(), 'package.json'))) {
+      fatal(`No package.json found at ${this.workspace.getPathAsDirectory()}`);
+    }
+
+    return true;
+  }
+
+  /**
+   * Compares the 'dependencies' of the package.json with the npm packages imported by the source files
+   * Typings packages and spec files are ignored, as these are only needed during development
+   */
+  calculateDependencyMismatches(): DependencyMismatches {
+    const flags = this.workspace.getFlags();
+    const dir = this.workspace.getPathAsDirectory();
+
+    const sources = this.collectSourceFiles(dir);
+    const packageJson = this.workspace.readJsonFile(join(dir, 'package.json'));
+
+    const dependencies = Object.keys(packageJson.dependencies || {});
+    const declared = new Set([...dependencies, ...Object.keys(packageJson.peerDependencies || {})]);
+
+    const labels = new Set<string>();
+    sources.forEach(file => this.processFile(file, sources, flags.npm_workspace_name, labels));
+
+    const used = new Set<string>();
+    Array.from(labels)
+      .map(label => Label.parseAbsolute(label))
+      .filter(label => label.getWorkspace() === flags.npm_workspace_name && !label.getPackage().startsWith('@types/'))
+      .forEach(label => used.add(label.getPackage()));
+
+    return {
+      unused: dependencies.filter(dep => !used.has(dep)),
+      undeclared: Array.from(used).filter(dep => !declared.has(dep))
+    };
+  }
+
+  /**
+   * Returns the workspace relative typescript files in the directory and its subdirectories, excluding spec files
+   * Subdirectories with their own package.json are published separately so are skipped
+   */
+  private collectSourceFiles(dir: string): string[] {
+    return this.workspace.walkDirectoriesAt(dir, child => !this.workspace.fileExists(join(child, 'package.json')))
+      .map(current => this.workspace.readDirectoryAt(current))
+      .reduce((files, dirFiles) => files.concat(dirFiles), [])
+      .filter(file => this.isTsFile(file) && !file.endsWith('.d.ts') && !this.isSpecFile(file));
+  }
+}
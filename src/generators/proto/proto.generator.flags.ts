@@ -0,0 +1,60 @@
+import { fatal } from '../../logger';
+
+export function setupGeneratorCommand(y) {
+  return y.option('proto_library_suffix', {
+    type: 'string',
+    description: 'Suffix used for proto_library rule names',
+    default: 'proto',
+    group: 'Proto Generator'
+  }).option('proto_ts_rule', {
+    type: 'string',
+    description: 'The rule kind used to generate typescript from each proto_library, eg ts_proto_library. ' +
+      'If blank then no codegen rule is generated',
+    default: '',
+    group: 'Proto Generator'
+  }).option('proto_ts_suffix', {
+    type: 'string',
+    description: 'Suffix used for the typescript codegen rule names, imports of the generated modules resolve to this rule',
+    default: 'ts_proto',
+    group: 'Proto Generator'
+  }).option('proto_import_mapping', {
+    type: 'array',
+    description: 'Maps imports of proto files outside of the workspace to the package providing them, in the form ' +
+      'google/api/=@com_google_googleapis//google/api',
+    default: [],
+    requiresArg: true,
+    coerce: (mappings: string[]) => new Map(mappings.map(mapping => {
+      const [prefix, pkg] = mapping.split('=');
+      if (!prefix || !pkg) {
+        fatal(`Invalid --proto_import_mapping '${mapping}', expected the form prefix=package`);
+      }
+      return [prefix, pkg] as [string, string];
+    })),
+    group: 'Proto Generator'
+  });
+}
+
+export interface ProtoGeneratorFlags {
+  /**
+   * Suffix used for proto_library rule names
+   */
+  proto_library_suffix: string;
+
+  /**
+   * The rule kind used to generate typescript from each proto_library, eg ts_proto_library
+   * If blank then no codegen rule is generated
+   */
+  proto_ts_rule: string;
+
+  /**
+   * Suffix used for the typescript codegen rule names, imports of the generated modules resolve to this rule
+   */
+  proto_ts_suffix: string;
+
+  /**
+   * Maps imports of proto files outside of the workspace to the package providing them
+   * Parsed in the form google/api/=@com_google_googleapis//google/api, where google/api/annotations.proto
+   * maps to @com_google_googleapis//google/api:annotations_proto
+   */
+  proto_import_mapping: Map<string, string>;
+}
@@ -0,0 +1,175 @@
+import { join, parse } from 'path';
+
+import { Buildozer } from '../../buildozer';
+import { GeneratorType } from '../../flags';
+import { Label } from '../../label';
+import { log, warn } from '../../logger';
+import { Workspace } from '../../workspace';
+import { BuildFileGenerator } from '../generator';
+
+// import "foo.proto"; import public "foo.proto"; import weak "foo.proto";
+const IMPORT_REGEX = /^\s*import\s+(?:public\s+|weak\s+)?(['"])([^'"]+)\1\s*;/gm;
+const WELL_KNOWN_TYPES_PREFIX = 'google/protobuf/';
+const WELL_KNOWN_TYPES_WORKSPACE = 'com_google_protobuf';
+
+// the suffixes of the modules generated for a proto file, eg foo.proto => foo_pb.js, foo_grpc_pb.js, foo_pb_service.js
+const GENERATED_MODULE_REGEX = /^(.+?)(_grpc_pb|_pb_service|_pb)(\.d\.ts|\.js)?$/;
+
+/**
+ * Generates a proto_library for each .proto file, and optionally a rule that generates typescript from it
+ */
+export class ProtoGenerator extends BuildFileGenerator {
+  private readonly buildozer: Buildozer;
+
+  constructor(private readonly workspace: Workspace) {
+    super();
+    this.buildozer = workspace.getBuildozer();
+  }
+
+  async generate(): Promise<void> {
+    if (!this.workspace.isDirectory()) {
+      this.generateForFile(this.workspace.getPathFromBaseDir());
+      return;
+    }
+
+    this.workspace.readDirectory()
+      .filter(file => file.endsWith('.proto'))
+      .forEach(file => this.generateForFile(file, true));
+  }
+
+  getGeneratorType(): GeneratorType {
+    return GeneratorType.PROTO;
+  }
+
+  supportsDirectories(): boolean {
+    return true;
+  }
+
+  /**
+   * Returns the label for the codegen rule of a module generated from a .proto file, eg './foo_pb' => //pkg:foo-ts_proto
+   * Returns undefined if no codegen rules are generated (--proto_ts_rule isn't set), the module specifier isn't a generated
+   * module, or there is no matching .proto file
+   */
+  calculateCodegenLabelForModule(moduleSpecifier: string, fromDir: string): Label | undefined {
+    const flags = this.workspace.getFlags();
+    if (!flags.proto_ts_rule) { return; }
+
+    const path = moduleSpecifier.startsWith('.') ? join(fromDir, moduleSpecifier) : moduleSpecifier;
+
+    const parsed = parse(path);
+    const match = GENERATED_MODULE_REGEX.exec(parsed.base);
+    if (!match) { return; }
+
+    const protoFile = join(parsed.dir, `${match[1]}.proto`);
+    if (!this.workspace.fileExists(protoFile)) { return; }
+
+    return this.workspace.getLabelForFile(protoFile, flags.proto_ts_suffix);
+  }
+
+  /**
+   * Returns the labels for the imports in the proto file
+   * Import paths are relative to the workspace root, or failing that the directory of the importing file
+   */
+  calculateDeps(proto: string, fromDir: string): string[] {
+    const flags = this.workspace.getFlags();
+    const deps = new Set<string>();
+
+    let match: RegExpExecArray;
+    const content = proto.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+
+    IMPORT_REGEX.lastIndex = 0;
+    while ((match = IMPORT_REGEX.exec(content)) !== null) {
+      const importPath = match[2];
+      const label = this.calculateDependencyLabel(importPath, fromDir);
+      if (!label) {
+        warn(`Unable to resolve proto import '${importPath}', add a --proto_import_mapping for it`);
+        continue;
+      }
+
+      if (flags.verbose_import_mappings) {
+        log(`${importPath}=${label}`);
+      }
+
+      deps.add(label.toString());
+    }
+
+    return Array.from(deps);
+  }
+
+  /**
+   * Returns the label for the import, or undefined if the file isn't in the workspace and there is no mapping for it
+   */
+  private calculateDependencyLabel(importPath: string, fromDir: string): Label | undefined {
+    const flags = this.workspace.getFlags();
+
+    const staticLabel = this.workspace.tryResolveLabelFromStaticMapping(importPath);
+    if (staticLabel) { return staticLabel; }
+
+    if (importPath.startsWith(WELL_KNOWN_TYPES_PREFIX)) {
+      // eg google/protobuf/timestamp.proto => @com_google_protobuf//:timestamp_proto
+      const target = this.calculateExternalTarget(importPath, WELL_KNOWN_TYPES_PREFIX);
+      return Label.parseAbsolute(`@${WELL_KNOWN_TYPES_WORKSPACE}//:${target}`);
+    }
+
+    const relativeToFile = join(fromDir, importPath);
+    const resolved = [importPath, relativeToFile].find(path => this.workspace.fileExists(path));
+
+    if (resolved) {
+      return this.workspace.getLabelForFile(resolved, flags.proto_library_suffix);
+    }
+
+    // eg google/api/annotations.proto => @com_google_googleapis//google/api:annotations_proto
+    const prefix = Array.from(flags.proto_import_mapping.keys()).find(candidate => importPath.startsWith(candidate));
+    if (prefix) {
+      const pkg = flags.proto_import_mapping.get(prefix);
+      return Label.parseAbsolute(`${pkg}:${this.calculateExternalTarget(importPath, prefix)}`);
+    }
+  }
+
+  /**
+   * Returns the target for a proto file outside of the workspace, named from its path after 'prefix'
+   */
+  private calculateExternalTarget(importPath: string, prefix: string): string {
+    const name = importPath.substring(prefix.length).replace(/\.proto$/, '').replace(/\//g, '_');
+    return `${name}_proto`;
+  }
+
+  private generateForFile(path: string, useLocalDeps = false) {
+    const flags = this.workspace.getFlags();
+    const label = this.workspace.getLabelForPath();
+    const fileInfo = parse(path);
+
+    let deps = this.calculateDeps(this.workspace.readFile(path), fileInfo.dir);
+    if (useLocalDeps) {
+      deps = deps
+        .map(dep => Label.parseAbsolute(dep))
+        .map(dep => !dep.getWorkspace() && dep.getPackage() === label.getPackage() ? dep.getTarget(true) : dep.toString());
+    }
+
+    const protoLabel = label.withTarget(this.workspace.calculateRuleName(fileInfo.base, flags.proto_library_suffix));
+
+    this.buildozer.loadRule('proto_library', protoLabel);
+    this.buildozer.newRule('proto_library', protoLabel);
+    this.buildozer.addSrc([fileInfo.base], protoLabel);
+
+    if (deps.length) {
+      this.buildozer.addDep(deps, protoLabel);
+    }
+
+    if (flags.default_visibility) {
+      this.buildozer.setVisibility([flags.default_visibility], protoLabel);
+    }
+
+    if (!flags.proto_ts_rule) { return; }
+
+    const codegenLabel = label.withTarget(this.workspace.calculateRuleName(fileInfo.base, flags.proto_ts_suffix));
+
+    this.buildozer.loadRule(flags.proto_ts_rule, codegenLabel);
+    this.buildozer.newRule(flags.proto_ts_rule, codegenLabel);
+    this.buildozer.addDep([protoLabel.getTarget(true)], codegenLabel);
+
+    if (flags.default_visibility) {
+      this.buildozer.setVisibility([flags.default_visibility], codegenLabel);
+    }
+  }
+}
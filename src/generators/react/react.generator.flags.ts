@@ -0,0 +1,23 @@
+import { setupGeneratorCommand as setupSassGeneratorCommand } from '../sass/sass.generator.flags';
+import { setupGeneratorCommand as setupTsGeneratorCommand } from '../ts/ts.generator.flags';
+
+export function setupGeneratorCommand(y) {
+  setupTsGeneratorCommand(y);
+  setupSassGeneratorCommand(y);
+
+  return y.option('react_ts_config_label', {
+    type: 'string',
+    description: 'The label used for the tsconfig attr of react ts_library rules, this tsconfig should enable jsx. ' +
+      'Defaults to ts_config_label',
+    requiresArg: true,
+    group: 'React Generator'
+  });
+}
+
+export interface ReactGeneratorFlags {
+  /**
+   * The label used for the tsconfig attr of react ts_library rules, this tsconfig should enable jsx
+   * Defaults to ts_config_label
+   */
+  react_ts_config_label: string;
+}
@@ -0,0 +1,131 @@
+import { tsquery } from '@phenomnomnominal/tsquery';
+import { join, parse, relative } from 'path';
+import { SourceFile } from 'typescript';
+
+import { GeneratorType } from '../../flags';
+import { Label } from '../../label';
+import { fatal } from '../../logger';
+import { Workspace } from '../../workspace';
+import { SassGenerator } from '../sass/sass.generator';
+import { TsGenerator } from '../ts/ts.generator';
+
+const SASS_EXTENSIONS = ['.scss', '.sass'];
+const STYLE_EXTENSIONS = [...SASS_EXTENSIONS, '.css'];
+
+export class ReactGenerator extends TsGenerator {
+  constructor(readonly workspace: Workspace) {
+    super(workspace);
+  }
+
+  getGeneratorType(): GeneratorType {
+    return GeneratorType.REACT;
+  }
+
+  validate(): boolean {
+    if (!this.workspace.isDirectory()) {
+      fatal('Path passed to React generator must be a directory');
+    }
+
+    return true;
+  }
+
+  protected isTsFile(file: string): boolean {
+    return file.endsWith('.ts') || file.endsWith('.tsx');
+  }
+
+  protected getTsConfigLabel(): string | undefined {
+    const flags = this.workspace.getFlags();
+    return flags.react_ts_config_label || flags.ts_config_label;
+  }
+
+  /**
+   * Stylesheet imports are not typescript dependencies, they are turned into sass rules that are added as data
+   * to the ts_library instead, see calculateLibraryData
+   */
+  protected collectModuleSpecifiers(ast: SourceFile): string[] {
+    return super.collectModuleSpecifiers(ast)
+      .filter(moduleSpecifier => !this.isStyleImport(moduleSpecifier));
+  }
+
+  /**
+   * Returns the stylesheets imported by the files, eg import styles from './button.module.scss'
+   */
+  protected calculateLibraryData(files: string[]): string[] {
+    const styleImports = new Set<string>();
+
+    files.forEach(file => {
+      const ast = tsquery.ast(this.workspace.readFile(file), file);
+      super.collectModuleSpecifiers(ast)
+        .filter(moduleSpecifier => this.isStyleImport(moduleSpecifier))
+        .forEach(moduleSpecifier => styleImports.add(join(parse(file).dir, moduleSpecifier)));
+    });
+
+    return this.generateStyleRules(Array.from(styleImports));
+  }
+
+  private isStyleImport(moduleSpecifier: string): boolean {
+    return moduleSpecifier.startsWith('.') && STYLE_EXTENSIONS.includes(parse(moduleSpecifier).ext);
+  }
+
+  /**
+   * Generates a sass_binary for each sass stylesheet owned by this package, and returns the labels (or files)
+   * for all the imported stylesheets
+   */
+  private generateStyleRules(styleImports: string[]): string[] {
+    const flags = this.workspace.getFlags();
+    const pkg = this.workspace.getPathAsDirectory();
+    const label = this.workspace.getLabelForPath();
+    const sassGen = new SassGenerator(this.workspace);
+
+    const styles: string[] = [];
+
+    styleImports
+      .sort()
+      .forEach(path => {
+        const parsed = parse(path);
+        const isSass = SASS_EXTENSIONS.includes(parsed.ext);
+
+        if (!this.isOwnedByPackage(parsed.dir, pkg)) {
+          // sass styles from other packages are expected to have been generated by the sass generator
+          const owner = this.workspace.findOwningPackage(parsed.dir);
+          const ownerPkg = owner !== undefined ? owner : parsed.dir;
+
+          styles.push(isSass ?
+            this.workspace.getLabelForFile(path, flags.scss_binary_suffix).toString() :
+            Label.parseAbsolute(`//${ownerPkg}:${relative(ownerPkg, path)}`).toString());
+          return;
+        }
+
+        if (!isSass) {
+          styles.push(relative(pkg, path));
+          return;
+        }
+
+        const ruleLabel = label.withTarget(
+          sassGen.calculateRuleName(parsed.base, flags.scss_library_suffix, flags.scss_binary_suffix, false));
+        styles.push(ruleLabel.getTarget(true));
+
+        // stylesheets imported by more than one target are only generated once
+        if (this.buildozer.hasRule(ruleLabel)) { return; }
+
+        const deps = sassGen.calculateDeps(this.workspace.readFile(path), true, parsed.dir, sassGen.isIndentedSyntax(parsed));
+
+        this.buildozer.newSassBinaryRule(ruleLabel)
+          .setSrc(relative(pkg, path))
+          .setDeps(deps);
+      });
+
+    return styles;
+  }
+
+  /**
+   * Returns true if the workspace relative directory is in the package and not below a subdirectory that is its own package
+   */
+  private isOwnedByPackage(dir: string, pkg: string): boolean {
+    if (dir === pkg) { return true; }
+    if (!dir.startsWith(`${pkg}/`)) { return false; }
+
+    const owner = this.workspace.findOwningPackage(dir);
+    return owner === undefined || !owner.startsWith(`${pkg}/`);
+  }
+}
@@ -0,0 +1,144 @@
+// matches the at-rules that load another stylesheet, capturing the rule and everything up to the end of the statement
+// statements end at a ';' or block, or at the end of the line in the indented syntax (.sass)
+const LOADING_AT_RULE_REGEX = /@(import|use|forward)\s+([^;{}]+)/g;
+const INDENTED_LOADING_AT_RULE_REGEX = /@(import|use|forward)[ \t]+([^;{}\n]+)/g;
+// matches meta.load-css('url'), or load-css('url') when sass:meta is used without a namespace
+const LOAD_CSS_REGEX = /(?:[\w-]+\.)?load-css\(\s*(['"])([^'"]+)\1/g;
+const STRING_REGEX = /(['"])([^'"]*)\1/g;
+const URL_REGEX = /url\(\s*(['"]?)([^'")\s]+)\1\s*\)/g;
+
+// urls that are loaded by the browser or the sass compiler, rather than being part of the build
+// and urls that are interpolated, eg @import '#{$theme}/colors'
+const EXTERNAL_URL_REGEX = /^(sass:|https?:|\/\/)|[#@]\{/;
+
+/**
+ * Returns the urls of the stylesheets loaded via @import, @use, @forward and meta.load-css, in the order they appear
+ * Built in modules (eg sass:math) and external urls are skipped
+ *
+ * @import url(...) is a plain css import in Sass, so is only included when 'includeUrlImports' is set, eg for css and less
+ * 'indentedSyntax' should be set for .sass files, where statements end at the end of the line
+ *
+ * gonzales-pe isn't used here as it fails to parse the namespaced members that come with the module system,
+ * eg '@include theme.mixin' or '@include meta.load-css(...)'
+ */
+export function collectStyleImports(source: string, includeUrlImports = false, indentedSyntax = false): string[] {
+  const content = stripComments(source);
+  // at-rules are matched against a copy with the contents of strings masked, so that text within strings,
+  // eg content: "@import 'x'", isn't mistaken for a rule, the offsets are the same in both copies
+  const masked = maskStrings(content);
+  const urls: string[] = [];
+
+  const atRuleRegex = indentedSyntax ? INDENTED_LOADING_AT_RULE_REGEX : LOADING_AT_RULE_REGEX;
+
+  let rule: RegExpExecArray;
+  atRuleRegex.lastIndex = 0;
+  while ((rule = atRuleRegex.exec(masked)) !== null) {
+    const statement = content.substr(rule.index + rule[0].length - rule[2].length, rule[2].length);
+
+    const urlImports = rule[1] === 'import' && includeUrlImports ? matchUrls(statement) : [];
+    const strings = [...urlImports, ...matchStrings(statement.replace(URL_REGEX, ''))];
+
+    // @import can load many urls, while @use and @forward take one followed by an optional namespace or configuration
+    // that can contain strings, eg @use 'theme' with ($font: 'Roboto')
+    urls.push(...(rule[1] === 'import' ? strings : strings.slice(0, 1)));
+  }
+
+  let loadCss: RegExpExecArray;
+  LOAD_CSS_REGEX.lastIndex = 0;
+  while ((loadCss = LOAD_CSS_REGEX.exec(masked)) !== null) {
+    const call = content.substr(loadCss.index, loadCss[0].length);
+    urls.push(call.slice(call.length - loadCss[2].length - 1, call.length - 1));
+  }
+
+  return urls.filter(url => !EXTERNAL_URL_REGEX.test(url));
+}
+
+function matchUrls(value: string): string[] {
+  const urls: string[] = [];
+
+  let match: RegExpExecArray;
+  URL_REGEX.lastIndex = 0;
+  while ((match = URL_REGEX.exec(value)) !== null) {
+    urls.push(match[2]);
+  }
+
+  return urls;
+}
+
+function matchStrings(value: string): string[] {
+  const strings: string[] = [];
+
+  let match: RegExpExecArray;
+  STRING_REGEX.lastIndex = 0;
+  while ((match = STRING_REGEX.exec(value)) !== null) {
+    strings.push(match[2]);
+  }
+
+  return strings;
+}
+
+/**
+ * Removes line and block comments, leaving the contents of strings untouched
+ */
+function stripComments(source: string): string {
+  let result = '';
+  let quote: string | undefined;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quote) {
+      result += char;
+      if (char === '\\') {
+        result += source[++i] || '';
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+      result += char;
+    } else if (char === '/' && source[i + 1] === '/') {
+      // keep the newline so that statements stay separated
+      while (i < source.length && source[i] !== '\n') { i++; }
+      result += '\n';
+    } else if (char === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2);
+      i = end === -1 ? source.length : end + 1;
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Replaces the contents of strings with spaces, keeping the quotes so that the positions of strings are unchanged
+ */
+function maskStrings(source: string): string {
+  let result = '';
+  let quote: string | undefined;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quote) {
+      if (char === '\\') {
+        result += '  ';
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+        result += char;
+      } else {
+        result += char === '\n' ? char : ' ';
+      }
+    } else {
+      if (char === '"' || char === '\'') {
+        quote = char;
+      }
+      result += char;
+    }
+  }
+
+  return result;
+}
@@ -9,6 +9,12 @@ export function setupGeneratorCommand(y) {
     description: 'Suffix used for scss_binary rule names',
     default: 'scss',
     group: 'SCSS Generator'
+  }).option('scss_load_path', {
+    type: 'array',
+    description: 'Workspace relative directories that imports are resolved from, after the directory of the importing file',
+    default: [],
+    requiresArg: true,
+    group: 'SCSS Generator'
   });
 }
 
@@ -22,4 +28,9 @@ export interface SassGeneratorFlags {
    * Suffix used for scss_binary rule names
    */
   scss_binary_suffix: string;
+
+  /**
+   * Workspace relative directories that imports are resolved from, after the directory of the importing file
+   */
+  scss_load_path: string[];
 }
@@ -1,34 +1,76 @@
-import * as gonzales from 'gonzales-pe';
-import { ParsedPath } from 'path';
+import { join, parse, ParsedPath } from 'path';
 
 import { Buildozer } from '../../buildozer';
 import { GeneratorType } from '../../flags';
-import { log } from '../../logger';
+import { Label } from '../../label';
+import { log, warn } from '../../logger';
+import { NpmPackageResolver } from '../../npm';
 import { Workspace } from '../../workspace';
 import { BuildFileGenerator } from '../generator';
+import { collectStyleImports } from './imports';
+
+const SASS_EXTENSIONS = ['.scss', '.sass'];
+const SASS_IMPORT_EXTENSIONS = [...SASS_EXTENSIONS, '.css'];
 
 export class SassGenerator extends BuildFileGenerator {
-  private readonly buildozer: Buildozer;
+  protected readonly buildozer: Buildozer;
+  protected readonly npm: NpmPackageResolver;
 
-  constructor(private readonly workspace: Workspace) {
+  constructor(protected readonly workspace: Workspace) {
     super();
     this.buildozer = workspace.getBuildozer();
+    this.npm = new NpmPackageResolver(workspace);
   }
 
   async generate(): Promise<void> {
-    const flags = this.workspace.getFlags();
-    const scss = this.workspace.readFileAtPath();
+    if (!this.workspace.isDirectory()) {
+      this.generateForFile(this.workspace.getPathFromBaseDir());
+      return;
+    }
+
+    this.workspace.readDirectory()
+      .filter(file => this.isSourceFile(file))
+      .forEach(file => this.generateForFile(file, true));
+  }
+
+  /**
+   * Returns true if the file in the directory should have a rule generated for it
+   */
+  protected isSourceFile(file: string): boolean {
+    return SASS_EXTENSIONS.includes(parse(file).ext);
+  }
 
-    const deps = this.calculateDeps(scss);
+  /**
+   * Returns the labels for the imports of the file
+   * When 'useLocalDeps' is set, labels in the package being generated are shortened to ':target',
+   * as the rules for every file in the directory are generated into that package
+   */
+  protected calculateFileDeps(path: string, useLocalDeps: boolean): string[] {
+    const label = this.workspace.getLabelForPath();
+    const fileInfo = parse(path);
+    const deps = this.calculateDeps(this.workspace.readFile(path), true, fileInfo.dir, this.isIndentedSyntax(fileInfo));
+
+    if (!useLocalDeps) { return deps; }
+
+    return deps
+      .map(dep => Label.parseAbsolute(dep))
+      .map(dep => !dep.getWorkspace() && dep.getPackage() === label.getPackage() ? dep.getTarget(true) : dep.toString());
+  }
+
+  /**
+   * Generates a sass_library for the file if it's a partial, otherwise a sass_binary
+   */
+  protected generateForFile(path: string, useLocalDeps = false) {
+    const flags = this.workspace.getFlags();
+    const label = this.workspace.getLabelForPath();
+    const deps = this.calculateFileDeps(path, useLocalDeps);
 
-    const scssFileInfo = this.workspace.getPathInfo();
+    const scssFileInfo = parse(path);
     const isSassLib = this.isSassLib(scssFileInfo);
 
     const ruleName = this.calculateRuleName(scssFileInfo.base,
       flags.scss_library_suffix, flags.scss_binary_suffix, isSassLib);
 
-    const label = this.workspace.getLabelForPath();
-
     if (isSassLib) {
       const sassLib = this.buildozer.newSassLibraryRule(label.withTarget(ruleName))
         .setSrcs([scssFileInfo.base])
@@ -53,7 +95,14 @@ export class SassGenerator extends BuildFileGenerator {
   }
 
   supportsDirectories(): boolean {
-    return false;
+    return true;
+  }
+
+  /**
+   * Returns true if the file uses the indented syntax, where statements are ended by newlines rather than semicolons
+   */
+  isIndentedSyntax(fileInfo: ParsedPath): boolean {
+    return fileInfo.ext === '.sass';
   }
 
   isSassLib(fileInfo: ParsedPath): boolean {
@@ -66,27 +115,21 @@ export class SassGenerator extends BuildFileGenerator {
       .getTarget();
   }
 
-  calculateDeps(scss: string, resultsAreLabels = true): string[] {
+  /**
+   * Returns the labels for the stylesheets imported by 'scss', or the import paths if 'resultsAreLabels' is false
+   * Imports are resolved relative to 'fromDir', which defaults to the directory of the path being generated
+   * 'indentedSyntax' should be set when 'scss' is the content of a .sass file
+   */
+  calculateDeps(scss: string,
+                resultsAreLabels = true,
+                fromDir = this.workspace.getPathAsDirectory(),
+                indentedSyntax = false): string[] {
     const flags = this.workspace.getFlags();
-    const parseTree = gonzales.parse(scss, { syntax: 'scss' });
-
     const deps = new Set<string>();
 
-    parseTree.forEach('atrule', node => {
-      const isAtImportAtRule = node.content.find(content => {
-        if (content.type !== 'atkeyword') { return false; }
-        return content.content.find(n => n.type === 'ident' && n.content === 'import');
-      });
-
-      if (!isAtImportAtRule) { return; }
-
-      const atImportPathNode = node.content.find(n => n.type === 'string');
-      const importPath = atImportPathNode.content
-        .replace(/'/g, '')
-        .replace(/"/g, '');
-
+    this.collectImports(scss, indentedSyntax).forEach(importPath => {
       if (resultsAreLabels) {
-        const label = this.calculateDependencyLabel(importPath, flags.scss_library_suffix);
+        const label = this.calculateDependencyLabel(importPath, this.getLibrarySuffix(), fromDir, this.getBinarySuffix());
 
         if (flags.verbose_import_mappings) {
           log(`${importPath}=${label}`);
@@ -101,7 +144,114 @@ export class SassGenerator extends BuildFileGenerator {
     return Array.from(deps);
   }
 
-  calculateDependencyLabel(importPath: string, librarySuffix: string): string {
+  /**
+   * Returns the import paths in the stylesheet
+   */
+  protected collectImports(source: string, indentedSyntax = false): string[] {
+    return collectStyleImports(source, false, indentedSyntax);
+  }
+
+  /**
+   * Returns the suffix used for the rules of imported stylesheets
+   */
+  protected getLibrarySuffix(): string {
+    return this.workspace.getFlags().scss_library_suffix;
+  }
+
+  /**
+   * Returns the suffix used for the rules of stylesheets that aren't partials, or undefined if they are generated as libraries
+   */
+  protected getBinarySuffix(): string | undefined {
+    return this.workspace.getFlags().scss_binary_suffix;
+  }
+
+  /**
+   * Returns true if the workspace relative stylesheet is generated as a binary rule rather than a library
+   */
+  protected isBinaryFile(path: string): boolean {
+    const fileInfo = parse(path);
+    return SASS_EXTENSIONS.includes(fileInfo.ext) && !this.isSassLib(fileInfo);
+  }
+
+  /**
+   * Returns the label for the import from a stylesheet in 'fromDir'
+   * Imports prefixed with '~', or that don't resolve to a file but match an installed package, are labels in the npm workspace
+   *
+   * When 'binarySuffix' is set, imports of stylesheets that are generated as binary rules (eg those that aren't partials)
+   * are labelled with it, matching the rule that is generated for them
+   */
+  calculateDependencyLabel(importPath: string,
+                           librarySuffix: string,
+                           fromDir = this.workspace.getPathAsDirectory(),
+                           binarySuffix?: string): string {
+    if (importPath.startsWith('~')) {
+      return this.calculateNpmPackageLabel(importPath.substring(1)).toString();
+    }
+
+    const resolved = this.resolveImport(importPath, fromDir);
+    if (resolved) {
+      if (binarySuffix && this.isBinaryFile(resolved)) {
+        const label = this.workspace.getLabelForFile(resolved, binarySuffix).toString();
+        warn(`${resolved} is imported but is generated as a binary rule (${label}) that can't be used as a dep, ` +
+          `rename it to _${parse(resolved).base}`);
+        return label;
+      }
+
+      return this.workspace.getLabelForFile(resolved, librarySuffix).toString();
+    }
+
+    if (!importPath.startsWith('.') && this.npm.isInstalled(this.npm.getPackageName(importPath))) {
+      return this.calculateNpmPackageLabel(importPath).toString();
+    }
+
+    // best guess
     return this.workspace.getLabelForFile(importPath, librarySuffix).toString();
   }
+
+  /**
+   * Resolves the import to the workspace relative file that Sass would load, or undefined if it can't be found
+   * The import is resolved from 'fromDir', then each of the load paths, then the workspace root
+   * For each, partials, the .scss, .sass and .css extensions and index files are tried
+   */
+  resolveImport(importPath: string, fromDir: string): string | undefined {
+    const loadPaths = [fromDir, ...(this.workspace.getFlags().scss_load_path || []), ''];
+
+    for (const loadPath of loadPaths) {
+      const resolved = this.resolveImportCandidates(join(loadPath, importPath))
+        .find(candidate => this.workspace.fileExists(candidate));
+
+      if (resolved) { return resolved; }
+    }
+  }
+
+  /**
+   * Returns the files, in order, that the import of 'path' could load
+   */
+  protected resolveImportCandidates(path: string): string[] {
+    const parsed = parse(path);
+    const partial = (dir: string, base: string) => join(dir, `_${base}`);
+
+    if (SASS_IMPORT_EXTENSIONS.includes(parsed.ext)) {
+      return [path, partial(parsed.dir, parsed.base)];
+    }
+
+    const files = SASS_IMPORT_EXTENSIONS
+      .map(ext => [`${path}${ext}`, partial(parsed.dir, `${parsed.base}${ext}`)])
+      .reduce((candidates, pair) => candidates.concat(pair), []);
+
+    const indexFiles = SASS_IMPORT_EXTENSIONS
+      .map(ext => [join(path, `_index${ext}`), join(path, `index${ext}`)])
+      .reduce((candidates, pair) => candidates.concat(pair), []);
+
+    return [...files, ...indexFiles];
+  }
+
+  private calculateNpmPackageLabel(importPath: string): Label {
+    const packageName = this.npm.getPackageName(importPath);
+
+    const label = this.workspace.tryResolveLabelFromStaticMapping(packageName);
+    if (label) { return label; }
+
+    return Label.parseAbsolute(`@${this.workspace.getFlags().npm_workspace_name || 'npm'}//${packageName}`);
+  }
 }
@@ -0,0 +1,127 @@
+import { join, parse } from 'path';
+
+import { Label } from '../../label';
+import { PackageJson } from '../../npm';
+import { Workspace } from '../../workspace';
+import { TsConfig } from './tsconfig';
+
+// the typescript sources that an import written with the emitted '.js' or '.jsx' extension refers to
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.tsx', '.d.ts'];
+const SOURCE_EXTENSIONS = [...TYPESCRIPT_EXTENSIONS, '.js', '.jsx', '.mjs', '.cjs'];
+const JSON_EXTENSION = '.json';
+const INDEX_FILE = 'index';
+
+/**
+ * Resolves module specifiers to workspace relative files, following the typescript module resolution rules:
+ * tsconfig 'paths', 'baseUrl' and 'rootDirs' mappings, extension probing, directory index files and package.json entries
+ */
+export class TsModuleResolver {
+  private tsconfig: TsConfig | null;
+
+  constructor(private readonly workspace: Workspace) {}
+
+  /**
+   * Resolves the module specifier, as imported from a file in the workspace relative directory 'fromDir',
+   * to a workspace relative file
+   * Returns undefined if the specifier doesn't resolve to a file in the workspace
+   */
+  resolve(moduleSpecifier: string, fromDir: string): string | undefined {
+    const tsconfig = this.getTsConfig();
+
+    if (moduleSpecifier.startsWith('.')) {
+      const workspaceRelativeImport = join(fromDir, moduleSpecifier);
+      const resolved = this.resolveFile(workspaceRelativeImport);
+      if (resolved || !tsconfig) { return resolved; }
+
+      // rootDirs are only consulted when the relative import can't be found at its actual location
+      return this.resolveFirst(tsconfig.resolveRootDirs(workspaceRelativeImport));
+    }
+
+    if (!tsconfig) { return; }
+
+    return this.resolveFirst(tsconfig.resolveNonRelativeModule(moduleSpecifier));
+  }
+
+  /**
+   * Resolves a workspace relative path to a source file, probing for known extensions
+   * and falling back to treating the path as a directory
+   */
+  resolveFile(path: string): string | undefined {
+    const extensions = this.getExtensions();
+
+    if (extensions.some(ext => path.endsWith(ext)) && this.workspace.fileExists(path)) {
+      return path;
+    }
+
+    // imports written with the emitted extension refer to the typescript source, eg './foo.js' => './foo.ts'
+    const parsed = parse(path);
+    if (parsed.ext === '.js' || parsed.ext === '.jsx') {
+      const source = this.probeExtensions(join(parsed.dir, parsed.name), TYPESCRIPT_EXTENSIONS);
+      if (source) { return source; }
+    }
+
+    return this.probeExtensions(path, extensions) || this.resolveDirectory(path);
+  }
+
+  /**
+   * Returns the tsconfig used for module resolution, either from --ts_config or the file that --ts_config_label refers to
+   */
+  getTsConfig(): TsConfig | undefined {
+    if (this.tsconfig !== undefined) { return this.tsconfig || undefined; }
+
+    const flags = this.workspace.getFlags();
+
+    let path = flags.ts_config;
+    if (!path && flags.ts_config_label && Label.isAbsolute(flags.ts_config_label)) {
+      const label = Label.parseAbsolute(flags.ts_config_label);
+      if (!label.getWorkspace()) {
+        const target = label.getTarget();
+        path = join(label.getPackage(), target.endsWith('.json') ? target : 'tsconfig.json');
+        if (!this.workspace.fileExists(path)) { path = undefined; }
+      }
+    }
+
+    this.tsconfig = path ? TsConfig.load(this.workspace, path) || null : null;
+    return this.tsconfig || undefined;
+  }
+
+  private resolveFirst(candidates: string[]): string | undefined {
+    for (const candidate of candidates) {
+      const resolved = this.resolveFile(candidate);
+      if (resolved) { return resolved; }
+    }
+  }
+
+  private resolveDirectory(path: string): string | undefined {
+    const packageJsonPath = join(path, 'package.json');
+    if (this.workspace.fileExists(packageJsonPath)) {
+      let packageJson: PackageJson;
+      try {
+        packageJson = JSON.parse(this.workspace.readFile(packageJsonPath));
+      } catch (e) {
+        packageJson = {};
+      }
+
+      const entry = packageJson.types || packageJson.typings || packageJson.main;
+      if (entry) {
+        const entryPath = join(path, entry);
+        const resolved = this.probeExtensions(entryPath, this.getExtensions()) ||
+          (this.workspace.fileExists(entryPath) ? entryPath : undefined);
+        if (resolved) { return resolved; }
+      }
+    }
+
+    return this.probeExtensions(join(path, INDEX_FILE), this.getExtensions());
+  }
+
+  private probeExtensions(path: string, extensions: string[]): string | undefined {
+    return extensions
+      .map(ext => path + ext)
+      .find(candidate => this.workspace.fileExists(candidate));
+  }
+
+  private getExtensions(): string[] {
+    const tsconfig = this.getTsConfig();
+    return tsconfig && tsconfig.resolveJsonModule() ? [...SOURCE_EXTENSIONS, JSON_EXTENSION] : SOURCE_EXTENSIONS;
+  }
+}
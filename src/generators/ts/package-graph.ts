@@ -0,0 +1,112 @@
+import { DirectedGraph } from '../../graph';
+import { Label } from '../../label';
+
+/**
+ * A single import in a file that results in a dependency between two packages
+ */
+export interface FileDependency {
+  file: string;
+  moduleSpecifier: string;
+  label: Label;
+}
+
+/**
+ * Package level dependency graph, built from the labels calculated for each package's imports
+ * Each edge between packages records the file level imports that caused it, so that cycles can be reported
+ * in terms the user can fix
+ */
+export class PackageDependencyGraph {
+  private readonly graph: DirectedGraph<string> = new DirectedGraph<string>();
+  private readonly edgeReasons: Map<string, FileDependency[]> = new Map<string, FileDependency[]>();
+  private readonly visited: Set<string> = new Set<string>();
+
+  /**
+   * @param resolvePackageDependencies returns the dependencies for each of the typescript files in a workspace relative package
+   */
+  constructor(private readonly resolvePackageDependencies: (pkg: string) => FileDependency[]) {}
+
+  /**
+   * Adds the package, and every workspace package it transitively depends on, to the graph
+   */
+  addPackage(pkg: string) {
+    const queue = [pkg];
+
+    while (queue.length) {
+      const current = queue.shift();
+      if (this.visited.has(current)) { continue; }
+
+      this.visited.add(current);
+      this.graph.addNode(current);
+
+      this.resolvePackageDependencies(current)
+        // only labels in the main workspace can cause a cycle
+        .filter(dep => !dep.label.getWorkspace())
+        .filter(dep => dep.label.getPackage() !== current)
+        .forEach(dep => {
+          const target = dep.label.getPackage();
+          this.graph.addEdge(current, target);
+
+          const key = PackageDependencyGraph.edgeKey(current, target);
+          this.edgeReasons.set(key, [...(this.edgeReasons.get(key) || []), dep]);
+
+          queue.push(target);
+        });
+    }
+  }
+
+  /**
+   * Returns a path of packages that starts and ends at the given package if it is part of a cycle,
+   * otherwise returns undefined
+   */
+  findCycleThrough(pkg: string): string[] | undefined {
+    const cycle = this.graph.findCycles().find(component => component.includes(pkg));
+    if (!cycle) { return; }
+
+    // breadth first search from the package back to itself, only visiting packages in the cycle
+    const previous = new Map<string, string>();
+    const queue = this.graph.getEdges(pkg).filter(next => cycle.includes(next));
+    queue.forEach(next => previous.set(next, pkg));
+
+    while (queue.length && !previous.has(pkg)) {
+      const current = queue.shift();
+      this.graph.getEdges(current)
+        .filter(next => cycle.includes(next) && !previous.has(next))
+        .forEach(next => {
+          previous.set(next, current);
+          queue.push(next);
+        });
+    }
+
+    const path = [pkg];
+    let current = previous.get(pkg);
+    while (current !== pkg) {
+      path.unshift(current);
+      current = previous.get(current);
+    }
+    path.unshift(pkg);
+
+    return path;
+  }
+
+  /**
+   * Formats the cycle, listing the imports that cause each edge
+   */
+  formatCycle(cycle: string[]): string {
+    const lines: string[] = [];
+
+    for (let i = 0; i < cycle.length - 1; i++) {
+      const from = cycle[i];
+      const to = cycle[i + 1];
+
+      lines.push(`//${from} -> //${to}`);
+      (this.edgeReasons.get(PackageDependencyGraph.edgeKey(from, to)) || [])
+        .forEach(reason => lines.push(`\t${reason.file} imports '${reason.moduleSpecifier}' (${reason.label})`));
+    }
+
+    return lines.join('\n');
+  }
+
+  private static edgeKey(from: string, to: string): string {
+    return `${from}|${to}`;
+  }
+}
@@ -1,4 +1,18 @@
-export function setupGeneratorCommand(y) {
+import { setupGeneratorCommand as setupProtoGeneratorCommand } from '../proto/proto.generator.flags';
+
+export enum TsLibraryGranularity {
+  PACKAGE = 'package',
+  FILE = 'file',
+  SCC = 'scc'
+}
+
+/**
+ * Registers the flags used to resolve and label imports, shared by the generators that extend the ts generator
+ */
+export function setupModuleResolutionOptions(y) {
+  // imports of modules generated from .proto files resolve to the proto codegen rules
+  setupProtoGeneratorCommand(y);
+
   return y.option('npm_workspace_name', {
     type: 'string',
     description: 'The name of the npm bazel workspace',
@@ -10,6 +24,71 @@ export function setupGeneratorCommand(y) {
     description: 'The label used for any tsconfig attrs',
     requiresArg: true,
     group: 'TS Generator'
+  }).option('ts_config', {
+    type: 'string',
+    description: 'Workspace relative path to the tsconfig used to resolve paths, baseUrl and rootDirs, ' +
+      'defaults to the file referenced by ts_config_label',
+    requiresArg: true,
+    group: 'TS Generator'
+  }).option('node_builtin_label', {
+    type: 'string',
+    description: 'The label used for imports of node built-in modules, if blank these imports are ignored',
+    default: '@npm//@types/node',
+    group: 'TS Generator'
+  });
+}
+
+/**
+ * Registers the flags for checking the package level dependency graph for cycles
+ */
+export function setupCycleCheckOptions(y) {
+  return y.option('check_for_cycles', {
+    type: 'boolean',
+    description: 'Build the package level dependency graph and warn if the generated package is part of a cycle',
+    default: false,
+    group: 'TS Generator'
+  }).option('fail_on_cycles', {
+    type: 'boolean',
+    description: 'Exit without applying buildozer commands if the generated deps introduce a cycle, implies --check_for_cycles',
+    default: false,
+    group: 'TS Generator'
+  });
+}
+
+export function setupGeneratorCommand(y) {
+  setupModuleResolutionOptions(y);
+  setupCycleCheckOptions(y);
+
+  return y.option('ts_library_granularity', {
+    type: 'string',
+    description: 'Generate a ts_library per package, per file, or per strongly connected group of files (scc)',
+    choices: Object.values(TsLibraryGranularity),
+    default: TsLibraryGranularity.PACKAGE,
+    requiresArg: true,
+    group: 'TS Generator'
+  }).option('generate_spec_targets', {
+    type: 'boolean',
+    description: 'Generate a testonly ts_library and test rule for spec files rather than ignoring them',
+    default: false,
+    group: 'TS Generator'
+  }).option('ts_test_rule', {
+    type: 'string',
+    description: 'The rule kind used to run the spec files of a ts_library',
+    default: 'jasmine_node_test',
+    requiresArg: true,
+    group: 'TS Generator'
+  }).option('generate_nodejs_binaries', {
+    type: 'boolean',
+    description: 'Generate a nodejs_binary for each entry point in the package, that is files with a node shebang ' +
+      'and files referenced by the bin or main field of the package.json in the package',
+    default: false,
+    group: 'TS Generator'
+  }).option('nodejs_binary_entry_point', {
+    type: 'array',
+    description: 'Package relative files to generate a nodejs_binary for, in addition to any entry points found',
+    default: [],
+    requiresArg: true,
+    group: 'TS Generator'
   });
 }
 
@@ -23,4 +102,52 @@ export interface TsGeneratorFlags {
    * The label used for any tsconfig attrs
    */
   ts_config_label: string;
+
+  /**
+   * Workspace relative path to the tsconfig used to resolve paths, baseUrl and rootDirs
+   * Defaults to the file referenced by ts_config_label
+   */
+  ts_config: string;
+
+  /**
+   * The label used for imports of node built-in modules, if blank these imports are ignored
+   */
+  node_builtin_label: string;
+
+  /**
+   * Generate a ts_library per package, per file, or per strongly connected group of files (scc)
+   */
+  ts_library_granularity: TsLibraryGranularity;
+
+  /**
+   * Build the package level dependency graph and warn if the generated package is part of a cycle
+   */
+  check_for_cycles: boolean;
+
+  /**
+   * Exit without applying buildozer commands if the generated deps introduce a cycle, implies --check_for_cycles
+   * Cycles the package is already part of through the deps in its BUILD file are only warned about
+   */
+  fail_on_cycles: boolean;
+
+  /**
+   * Generate a testonly ts_library and test rule for spec files rather than ignoring them
+   */
+  generate_spec_targets: boolean;
+
+  /**
+   * The rule kind used to run the spec files of a ts_library
+   */
+  ts_test_rule: string;
+
+  /**
+   * Generate a nodejs_binary for each entry point in the package, that is files with a node shebang
+   * and files referenced by the bin or main field of the package.json in the package
+   */
+  generate_nodejs_binaries: boolean;
+
+  /**
+   * Package relative files to generate a nodejs_binary for, in addition to any entry points found
+   */
+  nodejs_binary_entry_point: string[];
 }
@@ -1,48 +1,92 @@
-import { parse } from 'path';
+import { join, parse, relative } from 'path';
 
 import { tsquery } from '@phenomnomnominal/tsquery';
-import { ExportDeclaration, Expression, ImportDeclaration, SourceFile } from 'typescript';
+import {
+  CallExpression,
+  ExportDeclaration,
+  ImportDeclaration,
+  SourceFile,
+  StringLiteralLike,
+  SyntaxKind
+} from 'typescript';
 import { Buildozer } from '../../buildozer';
 import { GeneratorType } from '../../flags';
 import { Label } from '../../label';
-import { fatal, log } from '../../logger';
+import { DirectedGraph } from '../../graph';
+import { fatal, log, warn } from '../../logger';
+import { NpmPackageResolver } from '../../npm';
 import { Workspace } from '../../workspace';
 import { BuildFileGenerator } from '../generator';
+import { ProtoGenerator } from '../proto/proto.generator';
+import { TsModuleResolver } from './module-resolver';
+import { FileDependency, PackageDependencyGraph } from './package-graph';
+import { TsLibraryGranularity } from './ts.generator.flags';
 
 const IMPORTS_QUERY = `ImportDeclaration:has(StringLiteral)`;
 const EXPORTS_QUERY = `ExportDeclaration:has(StringLiteral)`;
+const IMPORT_EQUALS_QUERY = `ImportEqualsDeclaration > ExternalModuleReference > StringLiteral`;
+const CALL_EXPRESSION_QUERY = `CallExpression`;
+
+const NODE_SHEBANG_REGEX = /^#!.*\bnode\b/;
 
 export class TsGenerator extends BuildFileGenerator {
+  private static readonly SPEC_LIBRARY_SUFFIX = 'test_srcs';
+  private static readonly SPEC_TEST_SUFFIX = 'test';
+  private static readonly BINARY_SUFFIX = 'bin';
+
   protected readonly buildozer: Buildozer;
+  protected readonly npm: NpmPackageResolver;
+  protected readonly moduleResolver: TsModuleResolver;
+  protected readonly protoGenerator: ProtoGenerator;
 
   constructor(protected readonly workspace: Workspace) {
     super();
     this.buildozer = workspace.getBuildozer();
+    this.npm = new NpmPackageResolver(workspace);
+    this.moduleResolver = new TsModuleResolver(workspace);
+    this.protoGenerator = new ProtoGenerator(workspace);
   }
 
   async generate(): Promise<void> {
     const files = this.workspace.readDirectory();
     const flags = this.workspace.getFlags();
 
-    const tsFiles = files
-      .filter(file => file.endsWith('.ts'))
-      .filter(file => !(flags.ignore_spec_files && file.endsWith('.spec.ts')));
+    const tsFiles = this.filterTsFiles(files);
+
+    this.checkForCycles();
+
+    if (flags.ts_library_granularity === TsLibraryGranularity.FILE || flags.ts_library_granularity === TsLibraryGranularity.SCC) {
+      this.generateFineGrainedTsLibraries(files, tsFiles, flags.ts_library_granularity);
+      return;
+    }
 
     const deps = new Set<string>();
     tsFiles
       .forEach(file => this.processFile(file, tsFiles, flags.npm_workspace_name, deps));
 
-    const tsLibrary = this.buildozer.newTsLibraryRule(this.workspace.getLabelForPath())
+    const label = this.workspace.getLabelForPath();
+
+    const tsLibrary = this.buildozer.newTsLibraryRule(label)
       .setSrcs(tsFiles.map(path => parse(path).base))
       .addDeps(Array.from(deps));
 
-    if (flags.ts_config_label) {
-      tsLibrary.setTsconfig(flags.ts_config_label);
+    const tsconfig = this.getTsConfigLabel();
+    if (tsconfig) {
+      tsLibrary.setTsconfig(tsconfig);
     }
 
     if (flags.default_visibility) {
       tsLibrary.setVisibility(flags.default_visibility);
     }
+
+    tsLibrary.addData(this.calculateLibraryData(tsFiles));
+
+    const fileTargets = new Map<string, Label>(tsFiles.map(file => [file, label]));
+    this.generateNodejsBinaries(tsFiles, fileTargets, () => deps);
+
+    if (this.generatesSpecTargets()) {
+      this.generateSpecTargets(files, tsFiles.length ? label : undefined, flags.ts_test_rule, 'srcs');
+    }
   }
 
   validate(): boolean {
@@ -61,65 +105,489 @@ export class TsGenerator extends BuildFileGenerator {
     return true;
   }
 
-  protected processFile(filePath: string, tsFiles: string[], npmWorkspace: string, labels: Set<string>): Set<string> {
+  /**
+   * Generates a ts_library for each file (or each strongly connected group of files) in the package,
+   * imports between files in the package become deps on the sibling targets
+   */
+  protected generateFineGrainedTsLibraries(files: string[], tsFiles: string[], granularity: TsLibraryGranularity) {
+    const flags = this.workspace.getFlags();
+    const pathLabel = this.workspace.getLabelForPath();
+
+    const graph = new DirectedGraph<string>();
+    const fileDeps = new Map<string, Set<string>>();
+
+    tsFiles.forEach(file => {
+      const deps = new Set<string>();
+      const packageDeps = new Set<string>();
+
+      this.processFile(file, tsFiles, flags.npm_workspace_name, deps, packageDeps);
+
+      fileDeps.set(file, deps);
+      graph.addNode(file);
+      packageDeps.forEach(dep => graph.addEdge(file, dep));
+    });
+
+    let groups: string[][];
+    if (granularity === TsLibraryGranularity.SCC) {
+      groups = graph.stronglyConnectedComponents()
+        .map(group => group.sort((a, b) => tsFiles.indexOf(a) - tsFiles.indexOf(b)))
+        .sort((a, b) => tsFiles.indexOf(a[0]) - tsFiles.indexOf(b[0]));
+    } else {
+      groups = tsFiles.map(file => [file]);
+
+      graph.findCycles().forEach(cycle => {
+        warn(`Files ${cycle.map(file => parse(file).base).join(', ')} import each other and will create a cycle ` +
+          `between their targets, consider using --ts_library_granularity=${TsLibraryGranularity.SCC}`);
+      });
+    }
+
+    const targets = new Map<string, Label>();
+    groups.forEach(group => {
+      const label = pathLabel.withTarget(this.workspace.calculateRuleName(group[0]));
+      group.forEach(file => targets.set(file, label));
+    });
+
+    groups.forEach(group => {
+      const label = targets.get(group[0]);
+      const deps = new Set<string>();
+
+      group.forEach(file => {
+        fileDeps.get(file).forEach(dep => deps.add(dep));
+        graph.getEdges(file)
+          .map(dep => targets.get(dep))
+          .filter(target => target.toString() !== label.toString())
+          .forEach(target => deps.add(target.getTarget(true)));
+      });
+
+      const tsLibrary = this.buildozer.newTsLibraryRule(label)
+        .setSrcs(group.map(path => parse(path).base))
+        .addDeps(Array.from(deps));
+
+      const tsconfig = this.getTsConfigLabel();
+      if (tsconfig) {
+        tsLibrary.setTsconfig(tsconfig);
+      }
+
+      if (flags.default_visibility) {
+        tsLibrary.setVisibility(flags.default_visibility);
+      }
+
+      tsLibrary.addData(this.calculateLibraryData(group));
+    });
+
+    // the npm packages needed at runtime are those imported by any file reachable from the entry point
+    this.generateNodejsBinaries(tsFiles, targets, entryPoint => {
+      const deps = new Set<string>();
+      const visited = new Set<string>();
+      const queue = [entryPoint];
+
+      while (queue.length) {
+        const file = queue.shift();
+        if (visited.has(file)) { continue; }
+
+        visited.add(file);
+        fileDeps.get(file).forEach(dep => deps.add(dep));
+        queue.push(...graph.getEdges(file));
+      }
+
+      return deps;
+    });
+
+    if (this.generatesSpecTargets()) {
+      this.generateSpecTargets(files, undefined, flags.ts_test_rule, 'srcs', targets);
+    }
+  }
+
+  /**
+   * Returns the label used for the tsconfig attr of the generated ts_library rules
+   */
+  protected getTsConfigLabel(): string | undefined {
+    return this.workspace.getFlags().ts_config_label;
+  }
+
+  /**
+   * Returns the labels (or files) added as data to the ts_library for the given files, generating any rules they need
+   */
+  protected calculateLibraryData(files: string[]): string[] {
+    return [];
+  }
+
+  /**
+   * Generates a nodejs_binary for each entry point in the package, the data includes the ts_library that contains
+   * the entry point and the npm packages it depends on at runtime, as these aren't provided by the library
+   */
+  protected generateNodejsBinaries(tsFiles: string[], fileTargets: Map<string, Label>,
+                                   runtimeDeps: (entryPoint: string) => Set<string>) {
+    const pathLabel = this.workspace.getLabelForPath();
+
+    this.findEntryPoints(tsFiles).forEach(entryPoint => {
+      const npmDeps = Array.from(runtimeDeps(entryPoint))
+        .filter(dep => this.isRuntimeNpmDep(dep));
+
+      const label = pathLabel.withTarget(this.workspace.calculateRuleName(entryPoint, TsGenerator.BINARY_SUFFIX));
+
+      this.buildozer.newNodejsBinaryRule(label)
+        .setEntryPoint(pathLabel.withTarget(parse(entryPoint).base))
+        .addData([fileTargets.get(entryPoint).getTarget(true), ...npmDeps]);
+    });
+  }
+
+  /**
+   * Returns the files in the package passed via --nodejs_binary_entry_point, and when --generate_nodejs_binaries is set,
+   * the files referenced by the bin and main fields of the package's package.json and any file with a node shebang
+   */
+  protected findEntryPoints(tsFiles: string[]): string[] {
+    const flags = this.workspace.getFlags();
+    const dir = this.workspace.getPathAsDirectory();
+    const entryPoints = new Set<string>();
+
+    // paths in package.json may be written with the emitted extension, eg 'cli.js' => 'cli.ts'
+    const addEntryPoint = (path: string): boolean => {
+      const file = this.moduleResolver.resolveFile(join(dir, path));
+      if (!file || !tsFiles.includes(file)) { return false; }
+
+      entryPoints.add(file);
+      return true;
+    };
+
+    (flags.nodejs_binary_entry_point || [])
+      .filter(path => !addEntryPoint(path))
+      .forEach(path => warn(`Entry point ${path} is not a typescript file in ${dir}, no nodejs_binary will be generated for it`));
+
+    if (!flags.generate_nodejs_binaries) {
+      return Array.from(entryPoints);
+    }
+
+    const packageJson = join(dir, 'package.json');
+    if (this.workspace.fileExists(packageJson)) {
+      const { bin, main } = this.workspace.readJsonFile(packageJson);
+      const bins: string[] = typeof bin === 'string' ? [bin] : Object.values(bin || {});
+
+      [...bins, main]
+        .filter(path => typeof path === 'string')
+        .forEach(path => addEntryPoint(path));
+    }
+
+    tsFiles
+      .filter(file => NODE_SHEBANG_REGEX.test(this.workspace.readFile(file)))
+      .forEach(file => addEntryPoint(relative(dir, file)));
+
+    return Array.from(entryPoints);
+  }
+
+  /**
+   * Returns true if the dep is an npm package needed at runtime, typings are only needed when compiling
+   */
+  private isRuntimeNpmDep(dep: string): boolean {
+    const label = Label.parseAbsolute(dep);
+    return label.getWorkspace() === this.workspace.getFlags().npm_workspace_name && !label.getPackage().startsWith('@types/');
+  }
+
+  /**
+   * Returns the typescript files that make up the main target for the package,
+   * spec files are excluded when they are ignored or generated into their own targets
+   */
+  protected filterTsFiles(files: string[]): string[] {
+    const excludeSpecFiles = this.workspace.getFlags().ignore_spec_files || this.generatesSpecTargets();
+
+    return files
+      .filter(file => this.isTsFile(file))
+      .filter(file => !(excludeSpecFiles && this.isSpecFile(file)));
+  }
+
+  /**
+   * Returns true if the spec files in the package are generated into their own targets
+   */
+  protected generatesSpecTargets(): boolean {
+    return this.workspace.getFlags().generate_spec_targets;
+  }
+
+  protected isTsFile(file: string): boolean {
+    return file.endsWith('.ts');
+  }
+
+  protected isSpecFile(file: string): boolean {
+    return this.isTsFile(file) && /\.spec\.tsx?$/.test(file);
+  }
+
+  /**
+   * Generates a testonly ts_library for the spec files in the package, depending on the main target and any imports
+   * made by the specs, and wraps it in the given test rule
+   * The targets are named after the package, eg some-test_srcs and some-test, so they don't clash with its default target
+   */
+  protected generateSpecTargets(files: string[], mainLabel: Label | undefined, testRule: string,
+                                testRuleAttr: 'srcs' | 'deps', fileTargets?: Map<string, Label>) {
+    const flags = this.workspace.getFlags();
+    const specFiles = files.filter(file => this.isSpecFile(file));
+
+    if (!specFiles.length) { return; }
+
+    // imports of any typescript file in the package are satisfied by either the main target or the spec library itself
+    const packageFiles = files.filter(file => this.isTsFile(file));
+
+    const deps = new Set<string>();
+    if (mainLabel) {
+      deps.add(mainLabel.toString());
+    }
+
+    const packageDeps = new Set<string>();
+    specFiles
+      .forEach(file => this.processFile(file, packageFiles, flags.npm_workspace_name, deps, packageDeps));
+
+    // when the package is split into multiple targets, depend on the targets for the files that the specs import
+    if (fileTargets) {
+      Array.from(packageDeps)
+        .filter(file => fileTargets.has(file))
+        .forEach(file => deps.add(fileTargets.get(file).getTarget(true)));
+    }
+
+    const pathLabel = this.workspace.getLabelForPath();
+    const specTarget = (suffix: string) => `${pathLabel.getTarget()}${flags.suffix_separator}${suffix}`;
+    const specLibraryLabel = pathLabel.withTarget(specTarget(TsGenerator.SPEC_LIBRARY_SUFFIX));
+
+    const specLibrary = this.buildozer.newTsLibraryRule(specLibraryLabel)
+      .setSrcs(specFiles.map(path => parse(path).base))
+      .addDeps(Array.from(deps))
+      .setTestonly();
+
+    const tsconfig = this.getTsConfigLabel();
+    if (tsconfig) {
+      specLibrary.setTsconfig(tsconfig);
+    }
+
+    const test = this.buildozer.newTestRule(testRule, pathLabel.withTarget(specTarget(TsGenerator.SPEC_TEST_SUFFIX)));
+
+    if (testRuleAttr === 'srcs') {
+      test.addSrcs([specLibraryLabel.getTarget(true)]);
+    } else {
+      test.addDeps([specLibraryLabel.getTarget(true)]);
+    }
+  }
+
+  /**
+   * Calculates the labels for the dependencies of the file, adding them to 'labels'
+   * Imports of files in 'tsFiles' are not added as labels, but are added to 'packageDeps' if given
+   */
+  protected processFile(filePath: string, tsFiles: string[], npmWorkspace: string, labels: Set<string>,
+                        packageDeps?: Set<string>): Set<string> {
     const file = this.workspace.readFile(filePath);
-    const ast = tsquery.ast(file);
+    const ast = tsquery.ast(file, filePath);
 
-    return this.processTsFileAst(ast, tsFiles, npmWorkspace, labels);
+    return this.processTsFileAst(ast, tsFiles, npmWorkspace, labels, packageDeps);
   }
 
-  protected processTsFileAst(ast: SourceFile, tsFiles: string[], npmWorkspace: string, labels: Set<string>): Set<string> {
+  protected processTsFileAst(ast: SourceFile, tsFiles: string[], npmWorkspace: string, labels: Set<string>,
+                             packageDeps?: Set<string>): Set<string> {
+    this.resolveAstDependencies(ast, tsFiles, npmWorkspace, packageDeps)
+      .forEach(specifierLabels => specifierLabels.forEach(label => labels.add(label.toString())));
+
+    return labels;
+  }
+
+  /**
+   * Returns the labels that each module specifier in the file resolves to
+   * Imports of files in 'tsFiles' don't resolve to any labels, but are added to 'packageDeps' if given
+   */
+  protected resolveAstDependencies(ast: SourceFile, tsFiles: string[], npmWorkspace: string,
+                                   packageDeps?: Set<string>): Map<string, Label[]> {
+    // relative imports are resolved from the directory of the importing file
+    const fromDir = ast.fileName ? parse(ast.fileName).dir : this.workspace.getPathAsDirectory();
+
+    const dependencies = new Map<string, Label[]>();
+    this.collectModuleSpecifiers(ast)
+      .forEach(moduleSpecifier => {
+        dependencies.set(
+          moduleSpecifier,
+          this.resolveLabelsFromModuleSpecifier(moduleSpecifier, fromDir, tsFiles, npmWorkspace, packageDeps)
+        );
+      });
+
+    return dependencies;
+  }
+
+  /**
+   * Builds the package level dependency graph from the current package, and reports any cycle the package is part of
+   * Cycles that the package is already part of through the deps in its BUILD file are reported as existing cycles,
+   * if --fail_on_cycles is set the generator exits before any buildozer commands are applied when a new cycle is found
+   */
+  protected checkForCycles() {
+    const flags = this.workspace.getFlags();
+    if (!flags.check_for_cycles && !flags.fail_on_cycles) { return; }
+
+    const pkg = this.workspace.getPathAsDirectory();
+    const dependencies = new Map<string, FileDependency[]>();
+
+    const resolvePackageDependencies = (current: string): FileDependency[] => {
+      if (!dependencies.has(current)) {
+        dependencies.set(current, this.resolvePackageDependencies(current));
+      }
+      return dependencies.get(current);
+    };
+
+    const graph = new PackageDependencyGraph(resolvePackageDependencies);
+    graph.addPackage(pkg);
+
+    const cycle = graph.findCycleThrough(pkg);
+    if (!cycle) { return; }
+
+    // the same graph, but with only the edges from the package that are already in its BUILD file
+    const currentDeps = new Set(this.workspace.readPackageDeps(pkg).map(label => label.getPackage()));
+    const currentGraph = new PackageDependencyGraph(current => current !== pkg ?
+      resolvePackageDependencies(current) :
+      resolvePackageDependencies(current).filter(dep => currentDeps.has(dep.label.getPackage())));
+    currentGraph.addPackage(pkg);
+
+    const existingCycle = currentGraph.findCycleThrough(pkg);
+    if (existingCycle) {
+      warn(`Existing dependency cycle found between packages:\n${currentGraph.formatCycle(existingCycle)}`);
+      return;
+    }
+
+    const message = `Dependency cycle introduced between packages:\n${graph.formatCycle(cycle)}`;
+
+    if (flags.fail_on_cycles) {
+      fatal(`${message}\n--fail_on_cycles set, not applying buildozer commands`);
+    } else {
+      warn(message);
+    }
+  }
+
+  /**
+   * Returns the dependencies of the typescript files in the workspace relative package
+   */
+  private resolvePackageDependencies(pkg: string): FileDependency[] {
+    const flags = this.workspace.getFlags();
+
+    // other packages own the files in the directories below them, up to the next package,
+    // while the generated package only contains the files in its directory
+    const dirs = pkg === this.workspace.getPathAsDirectory() ?
+      [pkg] : this.workspace.walkDirectoriesAt(pkg, dir => !this.workspace.hasBuildFile(dir));
+
+    const tsFiles = this.filterTsFiles(
+      dirs.reduce((files, dir) => [...files, ...this.workspace.readDirectoryAt(dir)], [] as string[])
+    );
+
+    const dependencies: FileDependency[] = [];
+    tsFiles.forEach(file => {
+      const ast = tsquery.ast(this.workspace.readFile(file), file);
+      this.resolveAstDependencies(ast, tsFiles, flags.npm_workspace_name)
+        .forEach((labels, moduleSpecifier) => {
+          labels.forEach(label => dependencies.push({ file, moduleSpecifier, label }));
+        });
+    });
+
+    return dependencies;
+  }
+
+  /**
+   * Returns the text of every module specifier the file depends on, this includes
+   * import and export declarations (including type only imports and exports), 'import x = require()',
+   * dynamic import() and require() calls, and triple-slash path and types references
+   */
+  protected collectModuleSpecifiers(ast: SourceFile): string[] {
+    const specifiers: string[] = [];
+
     tsquery(ast, IMPORTS_QUERY)
-      .map((node: ImportDeclaration) => this.resolveLabelFromModuleSpecifier(node.moduleSpecifier, tsFiles, npmWorkspace))
-      .filter(label => !!label)
-      .forEach(label => labels.add(label.toString()));
+      .forEach((node: ImportDeclaration) => specifiers.push((node.moduleSpecifier as StringLiteralLike).text));
 
     tsquery(ast, EXPORTS_QUERY)
-      .map((node: ExportDeclaration) => this.resolveLabelFromModuleSpecifier(node.moduleSpecifier, tsFiles, npmWorkspace))
-      .filter(label => !!label)
-      .forEach(label => labels.add(label.toString()));
+      .filter((node: ExportDeclaration) => !!node.moduleSpecifier)
+      .forEach((node: ExportDeclaration) => specifiers.push((node.moduleSpecifier as StringLiteralLike).text));
 
-    return labels;
+    tsquery(ast, IMPORT_EQUALS_QUERY)
+      .forEach((node: StringLiteralLike) => specifiers.push(node.text));
+
+    tsquery(ast, CALL_EXPRESSION_QUERY)
+      .filter((node: CallExpression) => this.isImportOrRequireCall(node))
+      .forEach((node: CallExpression) => specifiers.push((node.arguments[0] as StringLiteralLike).text));
+
+    // triple-slash path references are relative to the file, but may omit the leading './'
+    ast.referencedFiles
+      .map(ref => ref.fileName.startsWith('.') ? ref.fileName : `./${ref.fileName}`)
+      .forEach(fileName => specifiers.push(fileName));
+
+    ast.typeReferenceDirectives
+      .forEach(ref => specifiers.push(this.npm.getTypesPackageName(ref.fileName)));
+
+    return specifiers;
   }
 
-  private resolveLabelFromModuleSpecifier(moduleSpecifier: Expression, tsFiles: string[] = [], npmWorkspace: string): Label | undefined {
-    const moduleSpecifierText = moduleSpecifier.getText().split(`'`)[1];
+  private isImportOrRequireCall(node: CallExpression): boolean {
+    if (node.arguments.length !== 1) { return false; }
 
-    const workspaceRelativeImport = this.workspace.resolveRelativeToWorkspace(moduleSpecifierText);
-    if (
-      tsFiles.includes(
-        workspaceRelativeImport.endsWith('.ts') ? workspaceRelativeImport : workspaceRelativeImport + '.ts')
-    ) {
-      return;
+    const arg = node.arguments[0];
+    if (arg.kind !== SyntaxKind.StringLiteral && arg.kind !== SyntaxKind.NoSubstitutionTemplateLiteral) {
+      return false;
     }
 
-    const label = this.calculateTsDependencyLabel(moduleSpecifierText, npmWorkspace);
+    const expression = node.expression;
+    return expression.kind === SyntaxKind.ImportKeyword ||
+      (expression.kind === SyntaxKind.Identifier && expression.getText() === 'require');
+  }
+
+  private resolveLabelsFromModuleSpecifier(moduleSpecifierText: string, fromDir: string, tsFiles: string[] = [],
+                                           npmWorkspace: string, packageDeps?: Set<string>): Label[] {
+    const resolvedFile = this.moduleResolver.resolve(moduleSpecifierText, fromDir);
+    if (resolvedFile && tsFiles.includes(resolvedFile)) {
+      if (packageDeps) {
+        packageDeps.add(resolvedFile);
+      }
+      return [];
+    }
+
+    const labels = this.calculateTsDependencyLabels(moduleSpecifierText, fromDir, npmWorkspace, resolvedFile);
 
     if (this.workspace.getFlags().verbose_import_mappings) {
-      log(`${moduleSpecifierText}=${label}`);
+      log(`${moduleSpecifierText}=${labels.join(',')}`);
     }
 
-    return label;
+    return labels;
   }
 
-  private calculateTsDependencyLabel(imp: string, npmWorkspace: string): Label | undefined {
-    let label = this.workspace.tryResolveLabelFromStaticMapping(imp, undefined, '.');
-    if (label) { return label; }
+  private calculateTsDependencyLabels(imp: string, fromDir: string, npmWorkspace: string, resolvedFile?: string): Label[] {
+    const isRelative = imp.startsWith('.');
+
+    let label = this.workspace.tryResolveLabelFromStaticMapping(isRelative ? join(fromDir, imp) : imp);
+    if (label) { return [label]; }
 
-    // some imports are deep but resolve to one label (eg material and cdk)
-    if (imp.startsWith('@angular/material')) {
-      return Label.parseAbsolute(`@${npmWorkspace}//@angular/material`);
-    } else if (imp.startsWith('@angular/cdk')) {
-      return Label.parseAbsolute(`@${npmWorkspace}//@angular/material`);
+    // modules generated from a .proto file are provided by the codegen rule for it
+    label = this.protoGenerator.calculateCodegenLabelForModule(imp, fromDir);
+    if (label) { return [label]; }
+
+    if (resolvedFile) {
+      return [this.workspace.getLabelForFile(resolvedFile)];
     }
 
-    if (imp.startsWith('.')) {
-      label = this.workspace.getLabelForFile(imp + '.ts');
-      if (label) { return label; }
+    if (isRelative) {
+      // best guess for a file that doesn't exist (yet)
+      const workspaceRelativeImport = join(fromDir, imp);
+      label = this.workspace.getLabelForFile(
+        workspaceRelativeImport.endsWith('.ts') ? workspaceRelativeImport : workspaceRelativeImport + '.ts');
+      if (label) { return [label]; }
     }
 
-    // fall back to assuming 3rd_party
-    return Label.parseAbsolute(`@${npmWorkspace}//${imp}`);
+    if (this.npm.isNodeBuiltin(imp)) {
+      const builtinLabel = this.workspace.getFlags().node_builtin_label;
+      return builtinLabel ? [Label.parseAbsolute(builtinLabel)] : [];
+    }
+
+    // fall back to assuming 3rd_party, deep imports resolve to the label for the package that contains them
+    // packages that don't ship their own typings also need the matching @types package
+    const packageName = this.npm.getPackageName(imp);
+    const labels = [this.calculateNpmPackageLabel(packageName, npmWorkspace)];
+
+    const typesPackageName = this.npm.getInstalledTypesPackage(packageName);
+    if (typesPackageName) {
+      labels.push(this.calculateNpmPackageLabel(typesPackageName, npmWorkspace));
+    }
+
+    return labels;
   }
 
+  private calculateNpmPackageLabel(packageName: string, npmWorkspace: string): Label {
+    const label = this.workspace.tryResolveLabelFromStaticMapping(packageName);
+    if (label) { return label; }
+
+    return Label.parseAbsolute(`@${npmWorkspace}//${packageName}`);
+  }
 }
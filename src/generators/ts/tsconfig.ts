@@ -0,0 +1,199 @@
+import { isAbsolute, join, normalize, parse } from 'path';
+import { readConfigFile } from 'typescript';
+
+import { debug, warn } from '../../logger';
+import { Workspace } from '../../workspace';
+
+/**
+ * Subset of the tsconfig compiler options that affect how module specifiers are resolved
+ * All paths are relative to the workspace root
+ */
+interface TsConfigPathOptions {
+  baseUrl?: string;
+  paths?: Map<string, string[]>;
+  pathsBase?: string;
+  rootDirs?: string[];
+  resolveJsonModule?: boolean;
+}
+
+/**
+ * Reads a tsconfig file (following any 'extends' chain) and uses the 'paths', 'baseUrl' and 'rootDirs'
+ * compiler options to resolve module specifiers to workspace relative paths
+ */
+export class TsConfig {
+  private constructor(private readonly options: TsConfigPathOptions) {}
+
+  /**
+   * Loads the tsconfig at the given workspace relative path
+   * Returns undefined if the file can't be read
+   */
+  static load(workspace: Workspace, path: string): TsConfig | undefined {
+    const options = TsConfig.readOptions(workspace, normalize(path), new Set());
+    return options ? new TsConfig(options) : undefined;
+  }
+
+  private static readOptions(workspace: Workspace, path: string, seen: Set<string>): TsConfigPathOptions | undefined {
+    if (seen.has(path)) {
+      warn(`Circular 'extends' found in tsconfig ${path}`);
+      return;
+    }
+    seen.add(path);
+
+    if (!workspace.fileExists(path)) {
+      warn(`Unable to find tsconfig at ${path}`);
+      return;
+    }
+
+    debug(`Reading tsconfig ${path}`);
+
+    const result = readConfigFile(path, file => workspace.readFile(file));
+    if (result.error) {
+      warn(`Unable to parse tsconfig at ${path}`);
+      return;
+    }
+
+    const config = result.config || {};
+    const dir = parse(path).dir;
+
+    const extended: string[] = !config.extends ? [] :
+      Array.isArray(config.extends) ? config.extends : [config.extends];
+
+    // options from the extended configs are applied first, each one overriding the last
+    const options: TsConfigPathOptions = extended
+      .map(ext => TsConfig.resolveExtendedConfigPath(workspace, dir, ext))
+      .filter(ext => !!ext)
+      .map(ext => TsConfig.readOptions(workspace, ext, seen))
+      .filter(opts => !!opts)
+      .reduce((merged, opts) => ({ ...merged, ...opts }), {});
+
+    const compilerOptions = config.compilerOptions || {};
+
+    if (compilerOptions.baseUrl !== undefined) {
+      options.baseUrl = join(dir, compilerOptions.baseUrl);
+    }
+
+    if (compilerOptions.paths !== undefined) {
+      options.paths = new Map(Object.entries(compilerOptions.paths));
+      // when no baseUrl is set, paths are resolved relative to the config that declares them
+      options.pathsBase = dir;
+    }
+
+    if (compilerOptions.rootDirs !== undefined) {
+      options.rootDirs = (compilerOptions.rootDirs as string[]).map(rootDir => join(dir, rootDir));
+    }
+
+    if (compilerOptions.resolveJsonModule !== undefined) {
+      options.resolveJsonModule = !!compilerOptions.resolveJsonModule;
+    }
+
+    return options;
+  }
+
+  private static resolveExtendedConfigPath(workspace: Workspace, dir: string, ext: string): string | undefined {
+    const candidates = ext.startsWith('.') || isAbsolute(ext) ?
+      [join(dir, ext), join(dir, ext + '.json')] :
+      [join('node_modules', ext), join('node_modules', ext + '.json'), join('node_modules', ext, 'tsconfig.json')];
+
+    const path = candidates.find(candidate => workspace.fileExists(candidate));
+
+    if (!path) {
+      warn(`Unable to resolve extended tsconfig '${ext}' from ${dir || '.'}`);
+    }
+
+    return path;
+  }
+
+  /**
+   * Returns true if json files can be imported as modules
+   */
+  resolveJsonModule(): boolean {
+    return !!this.options.resolveJsonModule;
+  }
+
+  /**
+   * Returns the workspace relative paths that a non relative module specifier may map to,
+   * based on the 'paths' and 'baseUrl' options, in the order they should be tried
+   */
+  resolveNonRelativeModule(moduleSpecifier: string): string[] {
+    const candidates: string[] = [];
+
+    if (this.options.paths) {
+      const base = this.options.baseUrl !== undefined ? this.options.baseUrl : this.options.pathsBase;
+      const match = this.matchPathPattern(moduleSpecifier);
+
+      if (match) {
+        this.options.paths.get(match.pattern)
+          .map(substitution => substitution.replace('*', match.wildcard))
+          .forEach(substitution => candidates.push(join(base, substitution)));
+      }
+    }
+
+    if (this.options.baseUrl !== undefined) {
+      candidates.push(join(this.options.baseUrl, moduleSpecifier));
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Returns the workspace relative paths that the given workspace relative path may also be found at
+   * when it is rooted under one of the 'rootDirs'
+   */
+  resolveRootDirs(path: string): string[] {
+    if (!this.options.rootDirs) { return []; }
+
+    const rootDir = this.options.rootDirs
+      .filter(dir => TsConfig.isWithin(dir, path))
+      .sort((a, b) => b.length - a.length)[0];
+
+    if (rootDir === undefined) { return []; }
+
+    const suffix = TsConfig.isRoot(rootDir) ? path : path.substring(rootDir.length + 1);
+
+    return this.options.rootDirs
+      .filter(dir => dir !== rootDir)
+      .map(dir => join(dir, suffix));
+  }
+
+  /**
+   * Finds the 'paths' pattern that best matches the specifier,
+   * an exact match wins, otherwise the wildcard pattern with the longest prefix is used
+   */
+  private matchPathPattern(moduleSpecifier: string): { pattern: string, wildcard: string } | undefined {
+    let best: { pattern: string, wildcard: string, prefixLength: number };
+
+    for (const pattern of Array.from(this.options.paths.keys())) {
+      const star = pattern.indexOf('*');
+
+      if (star === -1) {
+        if (pattern === moduleSpecifier) { return { pattern, wildcard: '' }; }
+        continue;
+      }
+
+      const prefix = pattern.substring(0, star);
+      const suffix = pattern.substring(star + 1);
+
+      const matches = moduleSpecifier.length >= prefix.length + suffix.length &&
+        moduleSpecifier.startsWith(prefix) &&
+        moduleSpecifier.endsWith(suffix);
+
+      if (matches && (!best || prefix.length > best.prefixLength)) {
+        best = {
+          pattern,
+          wildcard: moduleSpecifier.substring(prefix.length, moduleSpecifier.length - suffix.length),
+          prefixLength: prefix.length
+        };
+      }
+    }
+
+    return best;
+  }
+
+  private static isRoot(dir: string): boolean {
+    return dir === '.' || dir === '';
+  }
+
+  private static isWithin(dir: string, path: string): boolean {
+    return TsConfig.isRoot(dir) || path.startsWith(dir + '/');
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Simple directed graph used for analysing dependencies between files and packages
+ */
+export class DirectedGraph<T> {
+  private readonly edges: Map<T, Set<T>> = new Map<T, Set<T>>();
+
+  addNode(node: T) {
+    if (!this.edges.has(node)) {
+      this.edges.set(node, new Set<T>());
+    }
+  }
+
+  addEdge(from: T, to: T) {
+    this.addNode(from);
+    this.addNode(to);
+    this.edges.get(from).add(to);
+  }
+
+  hasNode(node: T): boolean {
+    return this.edges.has(node);
+  }
+
+  getNodes(): T[] {
+    return Array.from(this.edges.keys());
+  }
+
+  getEdges(node: T): T[] {
+    return this.edges.has(node) ? Array.from(this.edges.get(node)) : [];
+  }
+
+  /**
+   * Returns the strongly connected components of the graph (using Tarjan's algorithm),
+   * components are returned in reverse topological order, ie a component is returned before any component that depends on it
+   */
+  stronglyConnectedComponents(): T[][] {
+    const indices = new Map<T, number>();
+    const lowLinks = new Map<T, number>();
+    const onStack = new Set<T>();
+    const stack: T[] = [];
+    const components: T[][] = [];
+
+    let index = 0;
+
+    const strongConnect = (node: T) => {
+      indices.set(node, index);
+      lowLinks.set(node, index);
+      index++;
+
+      stack.push(node);
+      onStack.add(node);
+
+      this.getEdges(node).forEach(next => {
+        if (!indices.has(next)) {
+          strongConnect(next);
+          lowLinks.set(node, Math.min(lowLinks.get(node), lowLinks.get(next)));
+        } else if (onStack.has(next)) {
+          lowLinks.set(node, Math.min(lowLinks.get(node), indices.get(next)));
+        }
+      });
+
+      if (lowLinks.get(node) === indices.get(node)) {
+        const component: T[] = [];
+        let member: T;
+        do {
+          member = stack.pop();
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== node);
+
+        components.push(component);
+      }
+    };
+
+    this.getNodes().forEach(node => {
+      if (!indices.has(node)) {
+        strongConnect(node);
+      }
+    });
+
+    return components;
+  }
+
+  /**
+   * Returns the strongly connected components that contain a cycle
+   */
+  findCycles(): T[][] {
+    return this.stronglyConnectedComponents()
+      .filter(component => component.length > 1 || this.getEdges(component[0]).includes(component[0]));
+  }
+}
@@ -0,0 +1,6 @@
+export { Buildozer } from './buildozer';
+export { Flags, GeneratorType } from './flags';
+export { BuildFileGenerator } from './generators/generator';
+export { Label } from './label';
+export { GeneratorPlugin } from './plugins';
+export { Workspace } from './workspace';
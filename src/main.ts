@@ -1,11 +1,21 @@
 import { inspect } from 'util';
 
-import { setupAndParseArgs, Flags, GeneratorType } from './flags';
+import { readArgs, setupAndParseArgs, Flags, GeneratorType } from './flags';
+import { AppGenerator } from './generators/app/app.generator';
+import { AssetsGenerator } from './generators/assets/assets.generator';
+import { CssGenerator } from './generators/css/css.generator';
 import { BuildFileGenerator } from './generators/generator';
+import { JsGenerator } from './generators/js/js.generator';
+import { LessGenerator } from './generators/less/less.generator';
+import { NgPackageGenerator } from './generators/ng/ng-package.generator';
 import { NgGenerator } from './generators/ng/ng.generator';
+import { PkgNpmGenerator } from './generators/pkg-npm/pkg-npm.generator';
+import { ProtoGenerator } from './generators/proto/proto.generator';
+import { ReactGenerator } from './generators/react/react.generator';
 import { SassGenerator } from './generators/sass/sass.generator';
 import { TsGenerator } from './generators/ts/ts.generator';
 import { debug, fatal, lb, log, warn } from './logger';
+import { loadGeneratorPlugins, scanBaseDir, scanGeneratorPluginPaths, GeneratorPlugin } from './plugins';
 import { snapshot, wrap, TRACER_PATH } from './tracing';
 import { Workspace } from './workspace';
 
@@ -23,22 +33,57 @@ function printFlags(flags: Flags) {
   lb();
 }
 
-function getGenerator(type: GeneratorType, workspace: Workspace): BuildFileGenerator {
+function getGenerator(type: GeneratorType | string, workspace: Workspace, plugins: GeneratorPlugin[]): BuildFileGenerator {
+  // plugin types can't clash with the built in types
+  const plugin = plugins.find(candidate => candidate.type === type);
+  if (plugin) {
+    return plugin.createGenerator(workspace);
+  }
+
   switch (type)  {
+    case GeneratorType.APP:
+      return new AppGenerator(workspace);
+    case GeneratorType.ASSETS:
+      return new AssetsGenerator(workspace);
     case GeneratorType.SASS:
       return new SassGenerator(workspace);
+    case GeneratorType.CSS:
+      return new CssGenerator(workspace);
+    case GeneratorType.LESS:
+      return new LessGenerator(workspace);
     case GeneratorType.TS:
       return new TsGenerator(workspace);
+    case GeneratorType.JS:
+      return new JsGenerator(workspace);
     case GeneratorType.NG:
     case GeneratorType.NG_BUNDLE:
       return new NgGenerator(workspace);
+    case GeneratorType.NG_PACKAGE:
+      return new NgPackageGenerator(workspace);
+    case GeneratorType.PKG_NPM:
+      return new PkgNpmGenerator(workspace);
+    case GeneratorType.PROTO:
+      return new ProtoGenerator(workspace);
+    case GeneratorType.REACT:
+      return new ReactGenerator(workspace);
     default:
       fatal(`No generator found for type ${type}`);
   }
 }
 
 export async function run() {
-  const flags: Flags = setupAndParseArgs(process.argv, process.argv.includes('--no-rc'));
+  const ignorerc = process.argv.includes('--no-rc');
+  const bazelWorkspaceDir = process.env.BUILD_WORKSPACE_DIRECTORY;
+
+  // plugins add their own subcommands and flags, so are loaded before the args are parsed
+  // relative plugin paths are resolved from the base dir, falling back to its default when it isn't set
+  const args = readArgs(process.argv, ignorerc);
+  const plugins = loadGeneratorPlugins(
+    scanGeneratorPluginPaths(args),
+    scanBaseDir(args) || (bazelWorkspaceDir ? bazelWorkspaceDir : process.cwd())
+  );
+
+  const flags: Flags = setupAndParseArgs(process.argv, ignorerc, 2, plugins);
 
   if (flags.debug) {
     debug(`Writing tracer profile to '${TRACER_PATH}'`);
@@ -65,7 +110,7 @@ export async function run() {
     warn(`This will result in a loss of any manual edits to ${flags.build_file_name} file at ${workspace.getBuildFilePath()}`);
   }
 
-  const generator = getGenerator(flags.type, workspace);
+  const generator = getGenerator(flags.type, workspace, plugins);
 
   if (workspace.isDirectory() && !generator.supportsDirectories()) {
     fatal(`${generator.getGeneratorType()} generator does not support generating for directory paths, please pass a single file`);
@@ -0,0 +1,119 @@
+import { join } from 'path';
+
+import { debug } from './logger';
+import { Workspace } from './workspace';
+
+const builtinModules: string[] = require('module').builtinModules;
+
+/**
+ * The fields of a package.json that are used when resolving modules and entry points
+ */
+export interface PackageJson {
+  name?: string;
+  types?: string;
+  typings?: string;
+  main?: string;
+  bin?: string | { [name: string]: string };
+}
+
+/**
+ * Resolves module specifiers to the npm packages that provide them,
+ * using the package.json files found in the workspace's node_modules directory
+ */
+export class NpmPackageResolver {
+  private static readonly NODE_MODULES = 'node_modules';
+  private static readonly SCOPE_MARKER = '@';
+  private static readonly TYPES_SCOPE = '@types/';
+  private static readonly NODE_PROTOCOL = 'node:';
+
+  private readonly packageJsonCache: Map<string, PackageJson> = new Map<string, PackageJson>();
+
+  constructor(private readonly workspace: Workspace) {}
+
+  /**
+   * Returns the name of the package that the module specifier resolves to, stripping any deep import path
+   * eg:
+   *  lodash/fp => lodash
+   *  @scope/pkg/sub/path => @scope/pkg
+   */
+  getPackageName(moduleSpecifier: string): string {
+    const segments = moduleSpecifier.split('/');
+    const rootSegments = moduleSpecifier.startsWith(NpmPackageResolver.SCOPE_MARKER) ? 2 : 1;
+
+    // prefer the shortest path that is an installed package, falling back to the scoped name rules
+    // when node_modules hasn't been installed
+    for (let i = rootSegments; i <= segments.length; i++) {
+      const name = segments.slice(0, i).join('/');
+      if (this.isInstalled(name)) { return name; }
+    }
+
+    return segments.slice(0, rootSegments).join('/');
+  }
+
+  /**
+   * Returns true if the module specifier refers to a node built-in module, eg 'fs', 'fs/promises' or 'node:path'
+   */
+  isNodeBuiltin(moduleSpecifier: string): boolean {
+    if (moduleSpecifier.startsWith(NpmPackageResolver.NODE_PROTOCOL)) { return true; }
+    return builtinModules.includes(moduleSpecifier) || builtinModules.includes(moduleSpecifier.split('/')[0]);
+  }
+
+  /**
+   * Returns the name of the @types package for the given package name, eg @scope/foo => @types/scope__foo
+   */
+  getTypesPackageName(packageName: string): string {
+    if (packageName.startsWith(NpmPackageResolver.TYPES_SCOPE)) { return packageName; }
+
+    const name = packageName.startsWith(NpmPackageResolver.SCOPE_MARKER) ?
+      packageName.substring(1).replace('/', '__') : packageName;
+
+    return NpmPackageResolver.TYPES_SCOPE + name;
+  }
+
+  /**
+   * Returns the name of the installed @types package that provides typings for the given package,
+   * or undefined if the package ships its own typings (or isn't installed) or no @types package is installed
+   */
+  getInstalledTypesPackage(packageName: string): string | undefined {
+    if (packageName.startsWith(NpmPackageResolver.TYPES_SCOPE)) { return; }
+
+    const packageJson = this.getPackageJson(packageName);
+    if (!packageJson || packageJson.types || packageJson.typings) { return; }
+
+    // typescript will also pick up an index.d.ts at the root of the package when no types entry is given
+    if (this.workspace.fileExists(join(NpmPackageResolver.NODE_MODULES, packageName, 'index.d.ts'))) { return; }
+
+    const typesPackageName = this.getTypesPackageName(packageName);
+    return this.isInstalled(typesPackageName) ? typesPackageName : undefined;
+  }
+
+  /**
+   * Returns true if the package has a package.json in node_modules
+   */
+  isInstalled(packageName: string): boolean {
+    return !!this.getPackageJson(packageName);
+  }
+
+  /**
+   * Returns the parsed package.json for the given package name, or undefined if the package isn't installed
+   */
+  getPackageJson(packageName: string): PackageJson | undefined {
+    if (this.packageJsonCache.has(packageName)) {
+      return this.packageJsonCache.get(packageName);
+    }
+
+    const path = join(NpmPackageResolver.NODE_MODULES, packageName, 'package.json');
+
+    let packageJson: PackageJson | undefined;
+    if (this.workspace.fileExists(path)) {
+      try {
+        packageJson = JSON.parse(this.workspace.readFile(path));
+      } catch (e) {
+        debug(`Unable to parse ${path}`);
+      }
+    }
+
+    this.packageJsonCache.set(packageName, packageJson);
+    return packageJson;
+  }
+}
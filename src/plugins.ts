@@ -0,0 +1,111 @@
+import { isAbsolute, resolve } from 'path';
+
+import { BuildFileGenerator } from './generators/generator';
+import { debug, fatal } from './logger';
+import { Workspace } from './workspace';
+
+const PLUGIN_FLAG = '--generator_plugin';
+
+/**
+ * A generator provided by a module outside of bzlgen, loaded via --generator_plugin
+ * The module should export the plugin as 'plugin', or many as 'plugins'
+ */
+export interface GeneratorPlugin {
+  /**
+   * The generator type, used as the name of the subcommand, eg 'my_macro' for 'bzlgen my_macro <path>'
+   */
+  type: string;
+
+  /**
+   * Description of the subcommand shown in --help
+   */
+  description?: string;
+
+  /**
+   * Registers the plugin's flags, this is passed the yargs instance for the subcommand and should return it
+   */
+  setupGeneratorCommand?: (y) => any;
+
+  /**
+   * Creates the generator, this has access to the flags (including the plugin's own) and buildozer via the workspace
+   */
+  createGenerator: (workspace: Workspace) => BuildFileGenerator;
+}
+
+/**
+ * Checks the plugin has a type and can create its generator
+ */
+function validateGeneratorPlugin(plugin: GeneratorPlugin) {
+  if (!plugin || !plugin.type || typeof plugin.createGenerator !== 'function') {
+    fatal(`Invalid generator plugin, expected an object with 'type' and 'createGenerator'`);
+  }
+}
+
+const BASE_DIR_FLAG = '--base_dir';
+
+/**
+ * Returns the values of every occurrence of the flag in the args, in either the '--flag=value' or '--flag value' form
+ */
+function scanFlagValues(args: string[], flag: string): string[] {
+  const values: string[] = [];
+
+  args.forEach((arg, i) => {
+    if (arg.startsWith(`${flag}=`)) {
+      values.push(arg.slice(flag.length + 1));
+    } else if (arg === flag && args[i + 1] !== undefined) {
+      values.push(args[i + 1]);
+    }
+  });
+
+  return values.filter(value => !!value);
+}
+
+/**
+ * Returns the values of every --generator_plugin flag in the args, this runs before the args are parsed
+ * as plugins add their own subcommands and flags to the parser
+ * The args should include those from the rc file, see readArgs
+ */
+export function scanGeneratorPluginPaths(args: string[]): string[] {
+  return scanFlagValues(args, PLUGIN_FLAG);
+}
+
+/**
+ * Returns the value of the --base_dir flag in the args, or undefined if it isn't set
+ * As with yargs, the last occurrence wins
+ */
+export function scanBaseDir(args: string[]): string | undefined {
+  return scanFlagValues(args, BASE_DIR_FLAG).pop();
+}
+
+/**
+ * Requires each plugin module and returns the plugins it exports
+ * Relative paths are resolved from 'from', anything else is resolved as a node module
+ */
+export function loadGeneratorPlugins(paths: string[], from: string): GeneratorPlugin[] {
+  const plugins: GeneratorPlugin[] = [];
+
+  paths.forEach(path => {
+    const modulePath = path.startsWith('.') ? resolve(from, path) : path;
+
+    let exported;
+    try {
+      exported = require(isAbsolute(modulePath) ? modulePath : require.resolve(modulePath, { paths: [from] }));
+    } catch (e) {
+      fatal(`Unable to load generator plugin '${path}': ${e.message}`);
+    }
+
+    const modulePlugins: GeneratorPlugin[] = exported.plugins || (exported.plugin ? [exported.plugin] : []);
+    if (!modulePlugins.length) {
+      fatal(`Generator plugin module '${path}' does not export 'plugin' or 'plugins'`);
+    }
+
+    modulePlugins.forEach(plugin => {
+      validateGeneratorPlugin(plugin);
+
+      debug(`Loaded generator plugin '${plugin.type}' from ${path}`);
+      plugins.push(plugin);
+    });
+  });
+
+  return plugins;
+}
@@ -10,6 +10,9 @@ import { Label } from './label';
 import { debug, fatal, isDebugEnabled, lb, log, warn } from './logger';
 
 export class Workspace {
+  // directories that never contain workspace sources, skipped when walking directories
+  private static readonly IGNORED_DIRECTORIES = ['node_modules'];
+
   private readonly buildozer: Buildozer;
   private readonly labels: Map<string, string>;
   private readonly fileQueryResultCache: Map<string, Label> = new Map<string, Label>();
@@ -34,6 +37,13 @@ export class Workspace {
     return this.flags;
   }
 
+  /**
+   * Returns the value of the flag, for flags that aren't part of Flags, eg those added by a generator plugin
+   */
+  getFlag<T = unknown>(name: string): T {
+    return this.flags[name] as T;
+  }
+
   getPath(): string {
     return this.flags.path;
   }
@@ -61,6 +71,60 @@ export class Workspace {
       .map(file => this.resolveRelativeToWorkspace(file));
   }
 
+  /**
+   * Resolve a list of files in the given workspace relative directory, or an empty array if the directory doesn't exist
+   * The file paths are rooted at the workspace relative path
+   */
+  readDirectoryAt(dir: string): string[] {
+    try {
+      return readdirSync(join(this.flags.base_dir, dir))
+        .map(file => join(dir, file))
+        .filter(file => this.fileExists(file));
+    } catch (e) {
+      return [];
+    }
+  }
+
+  /**
+   * Resolve a list of the directories in the given workspace relative directory, or an empty array if the directory doesn't exist
+   * The directory paths are rooted at the workspace relative path
+   */
+  readDirectoriesAt(dir: string): string[] {
+    try {
+      return readdirSync(join(this.flags.base_dir, dir))
+        .map(file => join(dir, file))
+        .filter(file => lstatSync(join(this.flags.base_dir, file)).isDirectory());
+    } catch (e) {
+      return [];
+    }
+  }
+
+  /**
+   * Returns the given workspace relative directory and every directory below it, breadth first.
+   * node_modules, hidden and bazel output directories are skipped, as are directories (and everything below them)
+   * that 'descend' returns false for, eg returning false for directories with a BUILD file skips subdirectories
+   * that are their own bazel package, as the files below them belong to that package
+   */
+  walkDirectoriesAt(dir: string, descend: (dir: string) => boolean = () => true): string[] {
+    const dirs: string[] = [];
+    const queue = [dir];
+
+    while (queue.length) {
+      const current = queue.shift();
+      dirs.push(current);
+
+      this.readDirectoriesAt(current)
+        .filter(child => !Workspace.isIgnoredDirectory(parse(child).base) && descend(child))
+        .forEach(child => queue.push(child));
+    }
+
+    return dirs;
+  }
+
+  private static isIgnoredDirectory(name: string): boolean {
+    return name.startsWith('.') || name.startsWith('bazel-') || Workspace.IGNORED_DIRECTORIES.includes(name);
+  }
+
   /**
    * Reads the file at path if the path represents a file, otherwise return an empty undefined
    */
@@ -77,6 +141,32 @@ export class Workspace {
     return readFileSync(this.resolveAbsolute(path), { encoding: 'utf-8' });
   }
 
+  /**
+   * Reads and parses the JSON file at the given path, exiting with an error naming the file if it's malformed
+   * @param path
+   */
+  readJsonFile<T = any>(path: string): T {
+    const content = this.readFile(path);
+
+    try {
+      return JSON.parse(content);
+    } catch (e) {
+      fatal(`Unable to parse ${path}: ${e.message}`);
+    }
+  }
+
+  /**
+   * Tests if the given path exists and is a file
+   * @param path
+   */
+  fileExists(path: string): boolean {
+    try {
+      return lstatSync(this.resolveAbsolute(path)).isFile();
+    } catch (e) {
+      return false;
+    }
+  }
+
   /**
    * Return the parsed path info about the current path (workspace relative)
    */
@@ -175,7 +265,42 @@ export class Workspace {
       snake = `${snake}${this.flags.suffix_separator}${suffix}`;
     }
 
-    return this.getLabelFor(parsed.dir, snake);
+    const pkg = this.findOwningPackage(parsed.dir);
+    return this.getLabelFor(pkg !== undefined ? pkg : parsed.dir, snake);
+  }
+
+  /**
+   * Returns the workspace relative path of the nearest bazel package that contains the given workspace relative directory,
+   * that is, the directory itself or the closest parent with a BUILD file
+   *
+   * The root package is not considered, as files that will have BUILD files generated for them
+   * would otherwise all resolve to it. Returns undefined if no package is found
+   */
+  findOwningPackage(dir: string): string | undefined {
+    let current = normalize(dir);
+
+    while (current && current !== '.') {
+      if (this.hasBuildFile(current)) { return current; }
+      current = parse(current).dir;
+    }
+  }
+
+  /**
+   * Returns the default label of the package that owns the workspace relative file,
+   * eg the ng_module for a file in an Angular package
+   */
+  getPackageLabelForFile(path: string): Label {
+    const dir = parse(path).dir;
+    const pkg = this.findOwningPackage(dir);
+    return this.getLabelFor(pkg !== undefined ? pkg : dir);
+  }
+
+  /**
+   * Checks if the workspace relative directory contains a BUILD file (or BUILD.bazel file)
+   */
+  hasBuildFile(dir: string): boolean {
+    return [this.flags.build_file_name, 'BUILD', 'BUILD.bazel']
+      .some(name => this.fileExists(join(dir, name)));
   }
 
   /**
@@ -350,6 +475,11 @@ export class Workspace {
       shell.touch(this.getBuildFilePath());
     }
 
+    // rules may have been created in other packages, eg for files referenced from outside the package
+    this.buildozer.getPackages()
+      .filter(pkg => pkg !== this.getPathAsDirectory() && !this.hasBuildFile(pkg))
+      .forEach(pkg => shell.touch(join(this.flags.base_dir, pkg, this.flags.build_file_name)));
+
     const result = shell.exec(cmd, { cwd: this.flags.base_dir });
 
     if ((result.code === 0 || result.code === 3) && this.flags.clean_commands_file) {
@@ -357,6 +487,30 @@ export class Workspace {
     }
   }
 
+  /**
+   * Returns the deps of the rules currently in the BUILD file of the workspace relative package, read via buildozer
+   * Returns an empty array if the package has no BUILD file
+   */
+  readPackageDeps(pkg: string): Label[] {
+    if (!this.hasBuildFile(pkg)) { return []; }
+
+    const result = shell.exec(
+      `${this.flags.buildozer_binary} 'print deps' //${pkg}:all`,
+      { cwd: this.flags.base_dir, silent: !this.flags.debug }
+    );
+
+    // buildozer exits with 3 when no files were changed
+    if (result.code !== 0 && result.code !== 3) {
+      warn(`Unable to read the deps of //${pkg} via buildozer`);
+      return [];
+    }
+
+    // each rule's deps are printed as a list, eg [:b //src/c:c], or (missing) if it has none
+    return result.stdout.split(/[\s\[\]]+/)
+      .filter(dep => dep.startsWith(':') || Label.isAbsolute(dep))
+      .map(dep => Label.parseAbsolute(dep.startsWith(':') ? `//${pkg}${dep}` : dep));
+  }
+
   private queryForFile(file: string): Label {
     if (this.fileQueryResultCache.has(file)) {
       return this.fileQueryResultCache.get(file);
@@ -0,0 +1,52 @@
+import * as mockfs from 'mock-fs';
+
+import { setupAndParseArgs } from '../../src/flags';
+import { AppGenerator } from '../../src/generators/app/app.generator';
+import { Workspace } from '../../src/workspace';
+
+describe('app generator', () => {
+  afterEach(() => mockfs.restore());
+
+  it('can generate a bundle and asset filegroup for an application', () => {
+    const argv = [
+      'app',
+      './src/app/main.ts',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      '--app_bundle_rule=esbuild',
+      '--load_mapping=esbuild=@npm//@bazel/esbuild:index.bzl'
+    ];
+    const workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+    const gen = new AppGenerator(workspace);
+
+    mockfs({
+      '/home/workspace/src/app': {
+        'main.ts': `import { App } from './app';`,
+        'app.ts': '',
+        'favicon.ico': '',
+        'index.html': '',
+        'assets': {
+          'logo.svg': '',
+          'fonts': { 'Roboto.woff2': '' }
+        },
+        'feature': {
+          'BUILD': '',
+          'icon.png': ''
+        }
+      }
+    });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands().join('\n');
+    const expected =
+      'new_load @npm//@bazel/esbuild:index.bzl esbuild|//src/app:__pkg__\n' +
+      'new esbuild bundle|//src/app:__pkg__\n' +
+      'set entry_point "//src/app:main.ts"|//src/app:bundle\n' +
+      'add deps :app|//src/app:bundle\n' +
+      'new filegroup assets|//src/app:__pkg__\n' +
+      'add srcs favicon.ico assets/logo.svg assets/fonts/Roboto.woff2|//src/app:assets';
+
+    expect(commands).toEqual(expected);
+  });
+});
@@ -0,0 +1,87 @@
+import * as mockfs from 'mock-fs';
+
+import { setupAndParseArgs } from '../../src/flags';
+import { AssetsGenerator } from '../../src/generators/assets/assets.generator';
+import { globToRegExp, splitPatterns } from '../../src/generators/assets/glob';
+import { Workspace } from '../../src/workspace';
+
+describe('assets generator', () => {
+  const setup = (...flags: string[]): Workspace => {
+    const argv = [
+      'assets',
+      './src/card',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      ...flags
+    ];
+
+    return new Workspace(setupAndParseArgs(argv, true, 0));
+  };
+
+  afterEach(() => mockfs.restore());
+
+  it('can group files into filegroups and add the referenced groups as data', () => {
+    const workspace = setup();
+
+    mockfs({
+      '/home/workspace/src/card': {
+        'card.ts': `import defaults from './defaults.json';\nconst icon = 'icons/star.svg';`,
+        'package.json': '{}',
+        'defaults.json': '{}',
+        'messages.xlf': '',
+        'icons': { 'star.svg': '', 'heart.png': '' },
+        'fonts': { 'Roboto.woff2': '' },
+        'nested': { 'BUILD': '', 'other.png': '' }
+      }
+    });
+
+    new AssetsGenerator(workspace).generate();
+
+    const commands = workspace.getBuildozer().toCommands().join('\n');
+    const expected =
+      'new filegroup data|//src/card:__pkg__\n' +
+      'add srcs defaults.json|//src/card:data\n' +
+      'new filegroup i18n|//src/card:__pkg__\n' +
+      'add srcs messages.xlf|//src/card:i18n\n' +
+      'new filegroup fonts|//src/card:__pkg__\n' +
+      'add srcs fonts/Roboto.woff2|//src/card:fonts\n' +
+      'new filegroup images|//src/card:__pkg__\n' +
+      'add srcs icons/heart.png icons/star.svg|//src/card:images\n' +
+      'add data :data :images|//src/card:card';
+
+    expect(commands).toEqual(expected);
+  });
+
+  it('adds the referenced groups as assets of an ng_module', () => {
+    const workspace = setup('--asset_group=media=*.{svg,png}');
+
+    mockfs({
+      '/home/workspace/src/card': {
+        'card.component.ts': `@Component({ selector: 'app-card', templateUrl: './card.component.html' })\nexport class Card {}`,
+        'card.component.html': `<img src="logo.svg">`,
+        'logo.svg': '',
+        'data.json': '{}'
+      }
+    });
+
+    new AssetsGenerator(workspace).generate();
+
+    const commands = workspace.getBuildozer().toCommands().join('\n');
+    const expected =
+      'new filegroup media|//src/card:__pkg__\n' +
+      'add srcs logo.svg|//src/card:media\n' +
+      'add assets :media|//src/card:card';
+
+    expect(commands).toEqual(expected);
+  });
+
+  it('can match glob patterns', () => {
+    expect(splitPatterns('*.{png,svg}, i18n/**/*.json')).toEqual(['*.{png,svg}', 'i18n/**/*.json']);
+
+    expect(globToRegExp('*.{png,svg}').test('icons/star.svg')).toBe(true);
+    expect(globToRegExp('*.{png,svg}').test('star.jpg')).toBe(false);
+    expect(globToRegExp('i18n/**/*.json').test('i18n/en.json')).toBe(true);
+    expect(globToRegExp('i18n/**/*.json').test('i18n/fr/messages.json')).toBe(true);
+    expect(globToRegExp('i18n/**/*.json').test('data/i18n/en.json')).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import * as mockfs from 'mock-fs';
+
+import { setupAndParseArgs } from '../../src/flags';
+import { CssGenerator } from '../../src/generators/css/css.generator';
+import { Workspace } from '../../src/workspace';
+
+describe('css generator', () => {
+  afterEach(() => mockfs.restore());
+
+  it('can generate filegroups for css files and their imports', () => {
+    const argv = [
+      'css',
+      './src/component',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace'
+    ];
+    const workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+    const gen = new CssGenerator(workspace);
+
+    mockfs({
+      '/home/workspace/src': {
+        'component': {
+          'base.css': '',
+          'button.css': `@import url("base.css");\n@import 'src/common/reset';\n@import url(https://fonts.googleapis.com/css);`
+        },
+        'common': { 'BUILD': '', 'reset.css': '' }
+      }
+    });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands().join('\n');
+    const expected =
+      'new filegroup base-css|//src/component:__pkg__\n' +
+      'add srcs base.css|//src/component:base-css\n' +
+      'new filegroup button-css|//src/component:__pkg__\n' +
+      'add srcs button.css :base-css //src/common:reset-css|//src/component:button-css';
+
+    expect(commands).toEqual(expected);
+  });
+});
@@ -0,0 +1,84 @@
+import * as mockfs from 'mock-fs';
+
+import { setupAndParseArgs } from '../../src/flags';
+import { JsGenerator } from '../../src/generators/js/js.generator';
+import { Workspace } from '../../src/workspace';
+
+describe('js generator', () => {
+  afterEach(() => mockfs.restore());
+
+  const setupForParse = (...extraArgs: string[]) => {
+    const argv = [
+      'js',
+      './src/lib',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      ...extraArgs
+    ];
+    return new Workspace(setupAndParseArgs(argv, true, 0));
+  };
+
+  it('can generate a js_library from esm imports and require calls', () => {
+    const workspace = setupForParse('--load_mapping=js_library=@build_bazel_rules_nodejs//:index.bzl');
+    const gen = new JsGenerator(workspace);
+
+    mockfs({
+      '/home/workspace': {
+        'src': {
+          'lib': {
+            'index.mjs': `import { format } from './format.cjs';\nimport { util } from '../util/util.js';\nimport * as path from 'path';`,
+            'format.cjs': `const kebabCase = require('lodash.kebabcase');\nconst helper = require('./helper');`,
+            'helper.js': '',
+            'helper.d.ts': 'export declare function helper(): void;',
+            'types.d.ts': '',
+            'helper.spec.js': `require('./helper');`
+          },
+          'util': { 'BUILD': '', 'util.js': '' }
+        },
+        'node_modules': {
+          'lodash.kebabcase': { 'package.json': '{}', 'index.js': '' }
+        }
+      }
+    });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands().join('\n');
+    const expected =
+      'new_load @build_bazel_rules_nodejs//:index.bzl js_library|//src/lib:__pkg__\n' +
+      'new js_library lib|//src/lib:__pkg__\n' +
+      'add srcs format.cjs helper.d.ts helper.js index.mjs|//src/lib:lib\n' +
+      'add deps @npm//lodash.kebabcase:lodash.kebabcase //src/util:util @npm//@types/node:node|//src/lib:lib';
+
+    expect(commands).toEqual(expected);
+  });
+
+  it('can change the generated rule kind', () => {
+    const workspace = setupForParse('--js_library_rule=nodejs_library');
+    const gen = new JsGenerator(workspace);
+
+    mockfs({ '/home/workspace/src/lib': { 'index.js': '' } });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands().join('\n');
+    const expected =
+      'new nodejs_library lib|//src/lib:__pkg__\n' +
+      'add srcs index.js|//src/lib:lib';
+
+    expect(commands).toEqual(expected);
+  });
+
+  it('keeps spec files in the srcs when they are not ignored', () => {
+    const workspace = setupForParse('--no-ignore_spec_files', '--generate_spec_targets');
+    const gen = new JsGenerator(workspace);
+
+    mockfs({ '/home/workspace/src/lib': { 'index.js': '', 'index.spec.js': `require('./index');` } });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    expect(commands).toContain('add srcs index.js index.spec.js|//src/lib:lib');
+  });
+});
@@ -0,0 +1,73 @@
+import * as mockfs from 'mock-fs';
+
+import { setupAndParseArgs } from '../../src/flags';
+import { LessGenerator } from '../../src/generators/less/less.generator';
+import { Workspace } from '../../src/workspace';
+
+describe('less generator', () => {
+  afterEach(() => mockfs.restore());
+
+  it('can generate less_library rules for imported files and less_binary rules for the rest', () => {
+    const argv = [
+      'less',
+      './src/component',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      '--load_mapping=less_binary=//tools/less:defs.bzl',
+      '--load_mapping=less_library=//tools/less:defs.bzl'
+    ];
+    const workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+    const gen = new LessGenerator(workspace);
+
+    mockfs({
+      '/home/workspace/src': {
+        'component': {
+          'variables.less': '',
+          'button.less': `@import (reference) 'variables';\n@import 'src/common/_reset.less';`
+        },
+        'common': { 'BUILD': '', '_reset.less': '' }
+      }
+    });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands().join('\n');
+    const expected =
+      'new_load //tools/less:defs.bzl less_binary|//src/component:__pkg__\n' +
+      'new less_binary button-less|//src/component:__pkg__\n' +
+      'set src "button.less"|//src/component:button-less\n' +
+      'add deps :variables-less_library //src/common:reset-less_library|//src/component:button-less\n' +
+      'new_load //tools/less:defs.bzl less_library|//src/component:__pkg__\n' +
+      'new less_library variables-less_library|//src/component:__pkg__\n' +
+      'add srcs variables.less|//src/component:variables-less_library';
+
+    expect(commands).toEqual(expected);
+  });
+
+  it('labels imports from other directories with the rule generated for the file in its directory', () => {
+    const argv = [
+      'less',
+      './src/b',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace'
+    ];
+    const workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+
+    mockfs({
+      '/home/workspace/src': {
+        'a': { 'BUILD': '', 'button.less': `@import '../b/colors.less';\n@import '../b/theme.less';` },
+        'b': { 'BUILD': '', 'colors.less': '', 'theme.less': `@import 'base';`, 'base.less': '' }
+      }
+    });
+
+    new LessGenerator(workspace).generate();
+
+    const fromA = new LessGenerator(workspace).calculateDeps(`@import '../b/colors.less';\n@import '../b/base.less';`, true, 'src/a');
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    expect(commands).toContain('new less_binary colors-less|//src/b:__pkg__');
+    expect(commands).toContain('new less_library base-less_library|//src/b:__pkg__');
+    expect(fromA).toEqual(['//src/b:colors-less', '//src/b:base-less_library']);
+  });
+});
@@ -0,0 +1,82 @@
+import * as mockfs from 'mock-fs';
+
+import { setupAndParseArgs, GeneratorType } from '../../src/flags';
+import { NgPackageGenerator } from '../../src/generators/ng/ng-package.generator';
+import { Workspace } from '../../src/workspace';
+
+describe('ng_package generator', () => {
+  const setupForParse = (...extraArgs: string[]) => {
+    const argv = [
+      GeneratorType.NG_PACKAGE,
+      './lib',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      '--load_mapping=ng_package=@npm_angular_bazel//:index.bzl',
+      ...extraArgs
+    ];
+    return new Workspace(setupAndParseArgs(argv, true, 0));
+  };
+
+  afterEach(() => mockfs.restore());
+
+  it('can generate an ng_package from the re-exports of the entry point', () => {
+    const workspace = setupForParse();
+    const gen = new NgPackageGenerator(workspace);
+
+    mockfs({
+      '/home/workspace/lib': {
+        'BUILD': '',
+        'ng-package.json': JSON.stringify({ lib: { entryFile: 'src/public_api.ts' } }),
+        'src': {
+          'public_api.ts': `export * from './button/index';\nexport { Utils } from './utils';\nexport * from 'rxjs';`,
+          'utils.ts': `export class Utils {}`,
+          'button': {
+            'BUILD': '',
+            'index.ts': `export * from './button.module';`,
+            'button.module.ts': `export class ButtonModule {}`
+          }
+        },
+        'testing': {
+          'ng-package.json': '{}',
+          'index.ts': `export * from './harness/harness';`,
+          'harness': {
+            'BUILD': '',
+            'harness.ts': `export class Harness {}`
+          }
+        }
+      }
+    });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    const expected =
+      'new_load @npm_angular_bazel//:index.bzl ng_package|//lib:__pkg__\n' +
+      'new ng_package npm_package|//lib:__pkg__\n' +
+      'set entry_point "//lib:src/public_api.ts"|//lib:npm_package\n' +
+      'add secondary_entry_points testing|//lib:npm_package\n' +
+      'add deps :lib //lib/src/button:button //lib/testing/harness:harness|//lib:npm_package';
+
+    expect(commands.join('\n')).toEqual(expected);
+  });
+
+  it('reports a malformed ng-package.json', async () => {
+    const workspace = setupForParse();
+    const gen = new NgPackageGenerator(workspace);
+
+    mockfs({
+      '/home/workspace/lib': {
+        'ng-package.json': '{ "lib": ',
+        'index.ts': ''
+      }
+    });
+
+    const exit = spyOn(process, 'exit').and.throwError('exit');
+
+    await gen.generate().catch(() => {});
+
+    expect(exit).toHaveBeenCalledWith(1);
+    expect(workspace.getBuildozer().toCommands()).toEqual([]);
+  });
+});
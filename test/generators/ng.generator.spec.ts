@@ -21,7 +21,7 @@ export class SomeComponent {}
 import { SomeComponent } from './component.component';
 `;
 
-  const setupForParse = type => {
+  const setupForParse = (type, ...extraArgs: string[]) => {
     const argv = [
       type,
       './src/component',
@@ -32,14 +32,16 @@ import { SomeComponent } from './component.component';
       '--load_mapping=ng_module=@npm_angular_bazel//:index.bzl',
       '--label_mapping=rxjs/operators=@npm//rxjs',
       '--ng_module_bundle_load=//tools/rules_bazel/defs.bzl',
-      '--ng_generate_theme_binary'
+      '--ng_generate_theme_binary',
+      ...extraArgs
     ];
     return new Workspace(setupAndParseArgs(argv, true, 0));
   };
 
-  const setupMockFs = () => {
+  const setupMockFs = (extraFiles = {}) => {
     mockfs({
       '/home/workspace/src/component': {
+        ...extraFiles,
         'component.component.ts': NG_COMPONENT,
         'component.module.ts': NG_MODULE,
         'component.component.scss': '',
@@ -91,9 +93,185 @@ import { SomeComponent } from './component.component';
       'new ng_module component|//src/component:__pkg__\n' +
       'add srcs component.component.ts component.module.ts|//src/component:component\n' +
       'add deps @npm//@angular/core:core @npm//rxjs:rxjs|//src/component:component\n' +
-      'set style "component.component.scss"|//src/component:component\n' +
+      'add styles component.component.scss|//src/component:component\n' +
       'add assets component.component.html|//src/component:component\n' +
-      'set theme "component.theme.scss"|//src/component:component';
+      'add themes component.theme.scss|//src/component:component';
+
+    expect(commands.join('\n')).toEqual(expected);
+  });
+
+  it('can generate karma test targets for spec files', () => {
+    const workspace = setupForParse(GeneratorType.NG, '--generate_spec_targets', '--no-ng_generate_theme_binary');
+    const gen = new NgGenerator(workspace);
+
+    setupMockFs({
+      'component.component.spec.ts': `import { TestBed } from '@angular/core/testing';\nimport { SomeComponent } from './component.component';`
+    });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    const expected =
+      'new ts_library component-test_srcs|//src/component:__pkg__\n' +
+      'add srcs component.component.spec.ts|//src/component:component-test_srcs\n' +
+      'add deps //src/component:component @npm//@angular/core:core|//src/component:component-test_srcs\n' +
+      'set testonly True|//src/component:component-test_srcs\n' +
+      'new karma_web_test_suite component-test|//src/component:__pkg__\n' +
+      'add deps :component-test_srcs|//src/component:component-test';
+
+    expect(commands.slice(-6).join('\n')).toEqual(expected);
+  });
+
+  it('can reference templates and styles from outside the package', () => {
+    const workspace = setupForParse(GeneratorType.NG, '--no-ng_generate_theme_binary');
+    const gen = new NgGenerator(workspace);
+
+    mockfs({
+      '/home/workspace/src': {
+        'component': {
+          'component.component.ts': `@Component({
+  templateUrl: '../shared/shared.html',
+  styleUrls: ['../shared/shared.scss']
+})
+export class SomeComponent {}
+`
+        },
+        'shared': {
+          'BUILD': '',
+          'shared.html': '',
+          'shared.scss': ''
+        }
+      }
+    });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    const expected =
+      'new filegroup shared-template|//src/shared:__pkg__\n' +
+      'add srcs shared.html|//src/shared:shared-template\n' +
+      'add visibility //src/component:__pkg__|//src/shared:shared-template\n' +
+      'new_load @npm_angular_bazel//:index.bzl ng_module|//src/component:__pkg__\n' +
+      'new ng_module component|//src/component:__pkg__\n' +
+      'add srcs component.component.ts|//src/component:component\n' +
+      'add assets //src/shared:shared-template //src/shared:shared-styles|//src/component:component\n' +
+      'new_load @io_bazel_rules_sass//sass:sass.bzl sass_binary|//src/shared:__pkg__\n' +
+      'new sass_binary shared-styles|//src/shared:__pkg__\n' +
+      'set src "shared.scss"|//src/shared:shared-styles\n' +
+      'add visibility //src/component:__pkg__|//src/shared:shared-styles';
+
+    expect(commands.join('\n')).toEqual(expected);
+  });
+
+  it('can generate styles for many components in a package', () => {
+    const workspace = setupForParse(GeneratorType.NG_BUNDLE);
+    const gen = new NgGenerator(workspace);
+
+    setupMockFs({
+      'other.component.ts': `@Component({
+  templateUrl: './other.component.html',
+  styleUrls: ['./other.component.scss'],
+  styles: [\`@import 'inline';\`]
+})
+export class OtherComponent {}
+`,
+      'other.component.html': '',
+      'other.component.scss': `@import 'mixins';`,
+      '_mixins.scss': '',
+      'inline.scss': ''
+    });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    const expected =
+      'add styles component.component.scss other.component.scss inline.scss|//src/component:component\n' +
+      'add style_deps //src/component:mixins-styles|//src/component:component\n' +
+      'add assets component.component.html other.component.html|//src/component:component\n' +
+      'add themes component.theme.scss|//src/component:component';
+
+    expect(commands.slice(-4).join('\n')).toEqual(expected);
+  });
+
+  it('can infer deps from the selectors used in templates', () => {
+    const workspace = setupForParse(GeneratorType.NG, '--ng_infer_template_deps', '--no-ng_generate_theme_binary');
+    const gen = new NgGenerator(workspace);
+
+    mockfs({
+      '/home/workspace/src': {
+        'component': {
+          'component.component.ts': `@Component({
+  selector: 'app-component',
+  template: '<app-user-card [user]="user | initials"></app-user-card><app-component></app-component>'
+})
+export class SomeComponent {}
+`
+        },
+        'card': {
+          'BUILD': '',
+          'card.component.ts': `@Component({ selector: 'app-user-card' })\nexport class UserCardComponent {}`
+        },
+        'pipes': {
+          'initials': {
+            'initials.pipe.ts': `@Pipe({ name: 'initials' })\nexport class InitialsPipe {}`
+          }
+        }
+      },
+      '/home/workspace/node_modules/lib/lib.component.ts': `@Component({ selector: 'app-user-card' })\nexport class LibComponent {}`
+    });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    expect(commands).toContain('add deps //src/card:card //src/pipes/initials:initials|//src/component:component');
+  });
+
+  it('can generate an ng_module for each NgModule', () => {
+    const workspace = setupForParse(GeneratorType.NG, '--ng_module_granularity=module', '--no-ng_generate_theme_binary');
+    const gen = new NgGenerator(workspace);
+
+    mockfs({
+      '/home/workspace/src/component': {
+        'user.module.ts': `import { NgModule } from '@angular/core';
+import { UserComponent } from './user.component';
+@NgModule({ declarations: [UserComponent] })
+export class UserModule {}
+`,
+        'user.component.ts': `import { UserService } from './user.service';
+@Component({ selector: 'app-user', template: '' })
+export class UserComponent {}
+`,
+        'user.service.ts': `export class UserService {}`,
+        'admin.module.ts': `import { NgModule } from '@angular/core';
+import { UserModule } from './user.module';
+import { AdminComponent } from './admin.component';
+@NgModule({ declarations: [AdminComponent], imports: [UserModule] })
+export class AdminModule {}
+`,
+        'admin.component.ts': `@Component({ selector: 'app-admin', template: '' })
+export class AdminComponent {}
+`
+      }
+    });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    const expected =
+      'new_load @npm_angular_bazel//:index.bzl ng_module|//src/component:__pkg__\n' +
+      'new ng_module admin-module|//src/component:__pkg__\n' +
+      'add srcs admin.component.ts admin.module.ts|//src/component:admin-module\n' +
+      'add deps @npm//@angular/core:core :user-module|//src/component:admin-module\n' +
+      'new ng_module user-module|//src/component:__pkg__\n' +
+      'add srcs user.component.ts user.module.ts|//src/component:user-module\n' +
+      'add deps @npm//@angular/core:core :component|//src/component:user-module\n' +
+      'new ng_module component|//src/component:__pkg__\n' +
+      'add srcs user.service.ts|//src/component:component';
 
     expect(commands.join('\n')).toEqual(expected);
   });
@@ -0,0 +1,46 @@
+import { PackageDependencyGraph } from '../../src/generators/ts/package-graph';
+import { Label } from '../../src/label';
+
+describe('package dependency graph', () => {
+  const deps = {
+    'src/a': [{ file: 'src/a/a.ts', moduleSpecifier: '../b/b', label: Label.parseAbsolute('//src/b:b') }],
+    'src/b': [
+      { file: 'src/b/b.ts', moduleSpecifier: '../c/c', label: Label.parseAbsolute('//src/c:c') },
+      { file: 'src/b/b.ts', moduleSpecifier: 'rxjs', label: Label.parseAbsolute('@npm//rxjs') }
+    ],
+    'src/c': [
+      { file: 'src/c/c.ts', moduleSpecifier: '../a/a', label: Label.parseAbsolute('//src/a:a') },
+      { file: 'src/c/other.ts', moduleSpecifier: '../a', label: Label.parseAbsolute('//src/a:index') }
+    ],
+    'src/d': [{ file: 'src/d/d.ts', moduleSpecifier: '../a/a', label: Label.parseAbsolute('//src/a:a') }]
+  };
+
+  let graph: PackageDependencyGraph;
+
+  beforeEach(() => {
+    graph = new PackageDependencyGraph(pkg => deps[pkg] || []);
+  });
+
+  it('can find and format a cycle through a package', () => {
+    graph.addPackage('src/a');
+
+    const cycle = graph.findCycleThrough('src/a');
+    expect(cycle).toEqual(['src/a', 'src/b', 'src/c', 'src/a']);
+
+    const expected =
+      '//src/a -> //src/b\n' +
+      '\tsrc/a/a.ts imports \'../b/b\' (//src/b:b)\n' +
+      '//src/b -> //src/c\n' +
+      '\tsrc/b/b.ts imports \'../c/c\' (//src/c:c)\n' +
+      '//src/c -> //src/a\n' +
+      '\tsrc/c/c.ts imports \'../a/a\' (//src/a:a)\n' +
+      '\tsrc/c/other.ts imports \'../a\' (//src/a:index)';
+
+    expect(graph.formatCycle(cycle)).toEqual(expected);
+  });
+
+  it('returns undefined when the package is not part of a cycle', () => {
+    graph.addPackage('src/d');
+    expect(graph.findCycleThrough('src/d')).toBeUndefined();
+  });
+});
@@ -0,0 +1,106 @@
+import * as mockfs from 'mock-fs';
+
+import { setupAndParseArgs } from '../../src/flags';
+import { PkgNpmGenerator } from '../../src/generators/pkg-npm/pkg-npm.generator';
+import { Workspace } from '../../src/workspace';
+
+describe('pkg_npm generator', () => {
+  let workspace: Workspace;
+  let gen: PkgNpmGenerator;
+
+  beforeEach(() => {
+    const argv = [
+      'pkg_npm',
+      './packages/cli',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      '--load_mapping=pkg_npm=@build_bazel_rules_nodejs//:index.bzl'
+    ];
+    workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+    gen = new PkgNpmGenerator(workspace);
+
+    mockfs({
+      '/home/workspace/packages/cli': {
+        'BUILD': '',
+        'package.json': JSON.stringify({
+          name: '@acme/cli',
+          dependencies: { 'yargs': '^15.0.0', 'lodash': '^4.0.0' },
+          peerDependencies: { 'typescript': '^3.0.0' }
+        }),
+        'README.md': '',
+        'index.ts': `import * as yargs from 'yargs';\nimport * as ts from 'typescript';\nimport { run } from './commands/run';`,
+        'index.spec.ts': `import 'jasmine';`,
+        'commands': {
+          'BUILD': '',
+          'run.ts': `import { readFileSync } from 'fs';\nimport * as shell from 'shelljs';`
+        },
+        'plugin': {
+          'package.json': '{}',
+          'plugin.ts': `import * as chalk from 'chalk';`
+        }
+      }
+    });
+  });
+
+  afterEach(() => mockfs.restore());
+
+  it('can generate a pkg_npm depending on the libraries in the package', () => {
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands().join('\n');
+    const expected =
+      'new_load @build_bazel_rules_nodejs//:index.bzl pkg_npm|//packages/cli:__pkg__\n' +
+      'new pkg_npm npm_package|//packages/cli:__pkg__\n' +
+      'add srcs package.json README.md|//packages/cli:npm_package\n' +
+      'add deps :cli //packages/cli/commands:commands|//packages/cli:npm_package';
+
+    expect(commands).toEqual(expected);
+  });
+
+  it('can set the substitutions of the pkg_npm', () => {
+    const argv = [
+      'pkg_npm',
+      './packages/cli',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      '--pkg_npm_substitution=0.0.0-PLACEHOLDER={BUILD_SCM_VERSION}',
+      '--pkg_npm_substitution=__REGISTRY__=https://registry.acme.com/?a=b'
+    ];
+    workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+    gen = new PkgNpmGenerator(workspace);
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    expect(commands).toContain(
+      'dict_set substitutions 0.0.0-PLACEHOLDER:{BUILD_SCM_VERSION} __REGISTRY__:https://registry.acme.com/?a=b|//packages/cli:npm_package');
+  });
+
+  it('exits when a substitution is not in the form key=value', () => {
+    const argv = ['pkg_npm', './packages/cli', '--base_dir=/home/workspace', '--pkg_npm_substitution=FOO'];
+    // yargs reports errors thrown while coercing as usage errors, so only record the exit here
+    const exit = spyOn(process, 'exit').and.stub();
+
+    setupAndParseArgs(argv, true, 0);
+
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+
+  it('exits when the package.json is malformed', () => {
+    mockfs({
+      '/home/workspace/packages/cli': { 'package.json': '{ "name": ', 'index.ts': '' }
+    });
+    spyOn(process, 'exit').and.throwError('exit');
+
+    expect(() => gen.calculateDependencyMismatches()).toThrowError('exit');
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+
+  it('can find dependencies that are declared but unused, and used but undeclared', () => {
+    expect(gen.calculateDependencyMismatches()).toEqual({
+      unused: ['lodash'],
+      undeclared: ['shelljs']
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import * as mockfs from 'mock-fs';
+
+import { setupAndParseArgs } from '../../src/flags';
+import { ProtoGenerator } from '../../src/generators/proto/proto.generator';
+import { TsGenerator } from '../../src/generators/ts/ts.generator';
+import { Workspace } from '../../src/workspace';
+
+describe('proto generator', () => {
+  const USER_PROTO = `syntax = "proto3";
+package api;
+
+import "google/protobuf/timestamp.proto";
+import public "src/api/common.proto";
+// import "src/api/unused.proto";
+import "src/shared/money.proto";
+
+message User {
+  google.protobuf.Timestamp created = 1;
+}
+`;
+
+  const setupMockFs = () => {
+    mockfs({
+      '/home/workspace/src': {
+        'api': {
+          'user.proto': USER_PROTO,
+          'common.proto': 'syntax = "proto3";',
+          'client.ts': `import { User } from './user_pb';\nimport { Service } from './user_grpc_pb';`
+        },
+        'shared': { 'BUILD': '', 'money.proto': 'syntax = "proto3";' }
+      }
+    });
+  };
+
+  afterEach(() => mockfs.restore());
+
+  it('can generate proto_library rules and codegen rules for a directory', () => {
+    const argv = [
+      'proto',
+      './src/api',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      '--load_mapping=proto_library=@rules_proto//proto:defs.bzl',
+      '--proto_ts_rule=ts_proto_library'
+    ];
+    const workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+    const gen = new ProtoGenerator(workspace);
+
+    setupMockFs();
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands().join('\n');
+    const expected =
+      'new_load @rules_proto//proto:defs.bzl proto_library|//src/api:__pkg__\n' +
+      'new proto_library common-proto|//src/api:__pkg__\n' +
+      'add srcs common.proto|//src/api:common-proto\n' +
+      'new ts_proto_library common-ts_proto|//src/api:__pkg__\n' +
+      'add deps :common-proto|//src/api:common-ts_proto\n' +
+      'new proto_library user-proto|//src/api:__pkg__\n' +
+      'add srcs user.proto|//src/api:user-proto\n' +
+      'add deps @com_google_protobuf//:timestamp_proto :common-proto //src/shared:money-proto|//src/api:user-proto\n' +
+      'new ts_proto_library user-ts_proto|//src/api:__pkg__\n' +
+      'add deps :user-proto|//src/api:user-ts_proto';
+
+    expect(commands).toEqual(expected);
+  });
+
+  it('resolves typescript imports of generated modules to the codegen rule', () => {
+    const argv = [
+      'ts',
+      './src/api',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      '--proto_ts_rule=ts_proto_library'
+    ];
+    const workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+    const gen = new TsGenerator(workspace);
+
+    setupMockFs();
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands().join('\n');
+    const expected =
+      'new ts_library api|//src/api:__pkg__\n' +
+      'add srcs client.ts|//src/api:api\n' +
+      'add deps //src/api:user-ts_proto|//src/api:api';
+
+    expect(commands).toEqual(expected);
+  });
+
+  it('does not resolve typescript imports to codegen rules when --proto_ts_rule is not set', () => {
+    const argv = [
+      'ts',
+      './src/api',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace'
+    ];
+    const workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+    const gen = new TsGenerator(workspace);
+
+    setupMockFs();
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands().join('\n');
+
+    const expected =
+      'new ts_library api|//src/api:__pkg__\n' +
+      'add srcs client.ts|//src/api:api\n' +
+      'add deps //src/api:user-pb //src/api:user-grpc-pb|//src/api:api';
+
+    expect(commands).toEqual(expected);
+  });
+
+  it('maps imports from outside of the workspace via --proto_import_mapping, skipping those without a mapping', () => {
+    const argv = [
+      'proto',
+      './src/api/service.proto',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      '--proto_import_mapping=google/api/=@com_google_googleapis//google/api'
+    ];
+    const workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+    const gen = new ProtoGenerator(workspace);
+
+    mockfs({
+      '/home/workspace/src/api': {
+        'service.proto': `import "google/api/annotations.proto";\nimport "validate/validate.proto";`
+      }
+    });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands().join('\n');
+    const expected =
+      'new proto_library service-proto|//src/api:__pkg__\n' +
+      'add srcs service.proto|//src/api:service-proto\n' +
+      'add deps @com_google_googleapis//google/api:annotations_proto|//src/api:service-proto';
+
+    expect(commands).toEqual(expected);
+  });
+});
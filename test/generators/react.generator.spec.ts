@@ -0,0 +1,153 @@
+import * as mockfs from 'mock-fs';
+
+import { setupAndParseArgs } from '../../src/flags';
+import { ReactGenerator } from '../../src/generators/react/react.generator';
+import { Workspace } from '../../src/workspace';
+
+describe('react generator', () => {
+  const BUTTON =
+    `import * as React from 'react';
+import styles from './button.module.scss';
+import shared from '../shared/shared.module.scss';
+import './reset.css';
+import { Icon } from './icon';
+
+export const Button = () => <button className={styles.button}><Icon /></button>;
+`;
+
+  const ICON =
+    `import * as React from 'react';
+export const Icon = () => <i />;
+`;
+
+  let workspace: Workspace;
+  let gen: ReactGenerator;
+
+  beforeEach(() => {
+    const argv = [
+      'react',
+      './src/button',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      '--load_mapping=ts_library=@npm_bazel_typescript//:index.bzl',
+      '--load_mapping=sass_binary=@io_bazel_rules_sass//sass:sass.bzl',
+      '--ts_config_label=//:tsconfig',
+      '--react_ts_config_label=//:tsconfig-jsx'
+    ];
+
+    workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+    gen = new ReactGenerator(workspace);
+
+    mockfs({
+      '/home/workspace/src': {
+        button: {
+          'button.tsx': BUTTON,
+          'icon.tsx': ICON,
+          'index.ts': `export * from './button';`,
+          'button.module.scss': `@import '../shared/colors';`,
+          'reset.css': ''
+        },
+        shared: {
+          'shared.module.scss': '',
+          '_colors.scss': ''
+        }
+      }
+    });
+  });
+
+  afterEach(() => mockfs.restore());
+
+  it('can generate ts_library for tsx files with style module deps', () => {
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    const expected =
+      'new_load @npm_bazel_typescript//:index.bzl ts_library|//src/button:__pkg__\n' +
+      'new ts_library button|//src/button:__pkg__\n' +
+      'add srcs button.tsx icon.tsx index.ts|//src/button:button\n' +
+      'add deps @npm//react:react|//src/button:button\n' +
+      'set tsconfig "//:tsconfig-jsx"|//src/button:button\n' +
+      'new_load @io_bazel_rules_sass//sass:sass.bzl sass_binary|//src/button:__pkg__\n' +
+      'new sass_binary button-module-scss|//src/button:__pkg__\n' +
+      'set src "button.module.scss"|//src/button:button-module-scss\n' +
+      'add deps //src/shared:colors-scss_library|//src/button:button-module-scss\n' +
+      'add data :button-module-scss reset.css //src/shared:shared-module-scss|//src/button:button';
+
+    expect(commands.join('\n')).toEqual(expected);
+  });
+
+  it('only adds the stylesheets imported by the package as data when checking for cycles', () => {
+    const argv = [
+      'react',
+      './src/card',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      '--check_for_cycles'
+    ];
+
+    workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+
+    mockfs({
+      '/home/workspace/src': {
+        card: { 'card.tsx': `import { Button } from '../button/button';` },
+        button: {
+          'BUILD': '',
+          'button.tsx': `import styles from './button.module.scss';`,
+          'button.module.scss': ''
+        }
+      }
+    });
+
+    new ReactGenerator(workspace).generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    expect(commands).toEqual([
+      'new ts_library card|//src/card:__pkg__',
+      'add srcs card.tsx|//src/card:card',
+      'add deps //src/button:button|//src/card:card'
+    ]);
+  });
+
+  it('adds the stylesheets as data to the targets that import them when generating per file', () => {
+    workspace = new Workspace(setupAndParseArgs(['react', './src/button', '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace', '--ts_library_granularity=file'], true, 0));
+
+    new ReactGenerator(workspace).generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    expect(commands.filter(command => command.startsWith('add data'))).toEqual([
+      'add data :button-module-scss reset.css //src/shared:shared-module-scss|//src/button:button'
+    ]);
+  });
+
+  it('generates the rules for stylesheets in subdirectories that are not their own package in this package', () => {
+    mockfs({
+      '/home/workspace/src/button': {
+        'BUILD': '',
+        'button.tsx': `import styles from './styles/button.module.scss';\nimport theme from './theme/theme.module.scss';`,
+        'styles': { 'button.module.scss': `@import 'colors';`, '_colors.scss': '' },
+        'theme': { 'BUILD': '', 'theme.module.scss': '' }
+      }
+    });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    const expected =
+      'new_load @npm_bazel_typescript//:index.bzl ts_library|//src/button:__pkg__\n' +
+      'new ts_library button|//src/button:__pkg__\n' +
+      'add srcs button.tsx|//src/button:button\n' +
+      'set tsconfig "//:tsconfig-jsx"|//src/button:button\n' +
+      'new_load @io_bazel_rules_sass//sass:sass.bzl sass_binary|//src/button:__pkg__\n' +
+      'new sass_binary button-module-scss|//src/button:__pkg__\n' +
+      'set src "styles/button.module.scss"|//src/button:button-module-scss\n' +
+      'add deps //src/button:colors-scss_library|//src/button:button-module-scss\n' +
+      'add data :button-module-scss //src/button/theme:theme-module-scss|//src/button:button';
+
+    expect(commands.join('\n')).toEqual(expected);
+  });
+});
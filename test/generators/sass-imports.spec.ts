@@ -0,0 +1,39 @@
+import { collectStyleImports } from '../../src/generators/sass/imports';
+
+describe('sass imports', () => {
+  it('can collect @import urls', () => {
+    const scss = `@import "./foo", 'bar';\n@import url(foo.css);\n@import 'https://fonts.googleapis.com/css';`;
+    expect(collectStyleImports(scss)).toEqual(['./foo', 'bar']);
+  });
+
+  it('can collect @use and @forward urls, skipping built in modules', () => {
+    const scss = `
+@use 'sass:math';
+@use '../tokens' as t;
+@use "theme" with ($font: 'Roboto', $size: 12px);
+@forward 'src/list' hide list-reset, $horizontal-list-gap;
+.a { width: math.div(1, 2); @include t.mixin; }
+`;
+    expect(collectStyleImports(scss)).toEqual(['../tokens', 'theme', 'src/list']);
+  });
+
+  it('can collect meta.load-css urls', () => {
+    const scss = `@use 'sass:meta';\n.dark { @include meta.load-css('theme/dark', $with: ('primary': red)); }`;
+    expect(collectStyleImports(scss)).toEqual(['theme/dark']);
+  });
+
+  it('ignores commented out imports', () => {
+    const scss = `// @import 'foo';\n/* @use 'bar'; */\n@import 'baz'; // trailing`;
+    expect(collectStyleImports(scss)).toEqual(['baz']);
+  });
+
+  it('ignores at-rules within strings', () => {
+    const scss = `.a::before { content: "@import 'foo';"; }\n.b { content: '@use "bar"'; }\n@import 'baz';`;
+    expect(collectStyleImports(scss)).toEqual(['baz']);
+  });
+
+  it('ends statements at the end of the line in the indented syntax', () => {
+    const sass = `@use 'tokens' as t\n.a\n  color: 'red'\n  @include t.mixin\n@import foo, 'bar'\n.b\n  content: "baz"`;
+    expect(collectStyleImports(sass, false, true)).toEqual(['tokens', 'bar']);
+  });
+});
@@ -124,4 +124,149 @@ describe('sass generator', () => {
       expect(commands).toEqual(expected);
     });
   });
+
+  describe('import resolution', () => {
+    it('can resolve partials, index files, load paths and npm packages', () => {
+      const argv = [
+        'sass',
+        './src/component/foo.scss',
+        '--base_dir=/home/workspace',
+        '--no-assert_is_bazel_workspace',
+        '--scss_load_path=src/styles'
+      ];
+      workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+      gen = new SassGenerator(workspace);
+
+      mockfs({
+        '/home/workspace': {
+          'src': {
+            'component': {
+              'foo.scss': `@use 'variables';\n@import 'mixins', 'tokens';\n@import '~@angular/material/theming';\n@use 'bootstrap/scss/functions';`,
+              '_variables.scss': '',
+              'mixins': { '_index.scss': '' }
+            },
+            'styles': {
+              'BUILD': '',
+              '_tokens.scss': ''
+            }
+          },
+          'node_modules': {
+            'bootstrap': { 'package.json': '{}' }
+          }
+        }
+      });
+
+      gen.generate();
+
+      const commands = workspace.getBuildozer().toCommands().join('\n');
+      const expected =
+        'new sass_binary foo-scss|//src/component:__pkg__\n' +
+        'set src "foo.scss"|//src/component:foo-scss\n' +
+        'add deps //src/component:variables-scss_library //src/component/mixins:index-scss_library ' +
+        '//src/styles:tokens-scss_library @npm//@angular/material:material @npm//bootstrap:bootstrap|//src/component:foo-scss';
+
+      expect(commands).toEqual(expected);
+    });
+
+    it('labels imports in nested directories with the package that owns them', () => {
+      const argv = [
+        'sass',
+        './src/component/foo.scss',
+        '--base_dir=/home/workspace',
+        '--no-assert_is_bazel_workspace'
+      ];
+      workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+      gen = new SassGenerator(workspace);
+
+      mockfs({
+        '/home/workspace/src': {
+          'component': { 'foo.scss': `@import '../theme/palettes/colors';` },
+          'theme': {
+            'BUILD': '',
+            'palettes': { '_colors.scss': '' }
+          }
+        }
+      });
+
+      gen.generate();
+
+      const commands = workspace.getBuildozer().toCommands().join('\n');
+      const expected =
+        'new sass_binary foo-scss|//src/component:__pkg__\n' +
+        'set src "foo.scss"|//src/component:foo-scss\n' +
+        'add deps //src/theme:colors-scss_library|//src/component:foo-scss';
+
+      expect(commands).toEqual(expected);
+    });
+  });
+
+  describe('directories', () => {
+    it('can generate rules for each file in a directory', () => {
+      const argv = [
+        'sass',
+        './src/component',
+        '--base_dir=/home/workspace',
+        '--no-assert_is_bazel_workspace'
+      ];
+      workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+      gen = new SassGenerator(workspace);
+
+      mockfs({
+        '/home/workspace/src': {
+          'component': {
+            '_colors.scss': '',
+            '_theme.scss': `@use 'colors';`,
+            'button.scss': `@use 'theme';\n@import 'src/common/reset';`,
+            'button.ts': ''
+          },
+          'common': { 'BUILD': '', '_reset.scss': '' }
+        }
+      });
+
+      gen.generate();
+
+      const commands = workspace.getBuildozer().toCommands().join('\n');
+      const expected =
+        'new sass_library colors-scss_library|//src/component:__pkg__\n' +
+        'add srcs _colors.scss|//src/component:colors-scss_library\n' +
+        'new sass_library theme-scss_library|//src/component:__pkg__\n' +
+        'add srcs _theme.scss|//src/component:theme-scss_library\n' +
+        'add deps :colors-scss_library|//src/component:theme-scss_library\n' +
+        'new sass_binary button-scss|//src/component:__pkg__\n' +
+        'set src "button.scss"|//src/component:button-scss\n' +
+        'add deps :theme-scss_library //src/common:reset-scss_library|//src/component:button-scss';
+
+      expect(commands).toEqual(expected);
+    });
+
+    it('labels imports of files that are not partials with the sass_binary generated for them', () => {
+      const argv = [
+        'sass',
+        './src/component',
+        '--base_dir=/home/workspace',
+        '--no-assert_is_bazel_workspace'
+      ];
+      workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+      gen = new SassGenerator(workspace);
+
+      mockfs({
+        '/home/workspace/src/component': {
+          'base.scss': '',
+          'button.scss': `@import 'base';`
+        }
+      });
+
+      gen.generate();
+
+      const commands = workspace.getBuildozer().toCommands().join('\n');
+      const expected =
+        'new sass_binary base-scss|//src/component:__pkg__\n' +
+        'set src "base.scss"|//src/component:base-scss\n' +
+        'new sass_binary button-scss|//src/component:__pkg__\n' +
+        'set src "button.scss"|//src/component:button-scss\n' +
+        'add deps :base-scss|//src/component:button-scss';
+
+      expect(commands).toEqual(expected);
+    });
+  });
 });
@@ -0,0 +1,40 @@
+import { NgSelectorIndex } from '../../src/generators/ng/selector-index';
+
+describe('ng selector index', () => {
+  let index: NgSelectorIndex;
+
+  beforeEach(() => {
+    index = new NgSelectorIndex();
+
+    index.addFile('src/card/card.component.ts', `@Component({ selector: 'app-user-card', template: '' })
+export class UserCardComponent {}`);
+    index.addFile('src/highlight/highlight.directive.ts', `@Directive({ selector: 'button[appHighlight], a[appHighlight]' })
+export class HighlightDirective {}`);
+    index.addFile('src/model/model.directive.ts', `@Directive({ selector: '[appModel]:not([type=checkbox])' })
+export class ModelDirective {}`);
+    index.addFile('src/pipes/initials.pipe.ts', `@Pipe({ name: 'initials' })
+export class InitialsPipe {}`);
+    index.addFile('src/other/other.ts', `export const selector = 'app-other';`);
+  });
+
+  it('can find custom elements', () => {
+    expect(index.findDeclaringFiles('<div><app-user-card [user]="user"></app-user-card></div>'))
+      .toEqual(['src/card/card.component.ts']);
+  });
+
+  it('can find attribute directives with bindings', () => {
+    expect(index.findDeclaringFiles('<button appHighlight *ngIf="a > b">x</button>'))
+      .toEqual(['src/highlight/highlight.directive.ts']);
+    expect(index.findDeclaringFiles('<input [(appModel)]="value">'))
+      .toEqual(['src/model/model.directive.ts']);
+  });
+
+  it('can find pipes', () => {
+    expect(index.findDeclaringFiles('{{ user.name | initials }} {{ a || b }}'))
+      .toEqual(['src/pipes/initials.pipe.ts']);
+  });
+
+  it('ignores unknown elements, attributes and pipes', () => {
+    expect(index.findDeclaringFiles('<app-other title="x">{{ a | async }}</app-other>')).toEqual([]);
+  });
+});
@@ -2,6 +2,7 @@ import * as mockfs from 'mock-fs';
 
 import { setupAndParseArgs } from '../../src/flags';
 import { TsGenerator } from '../../src/generators/ts/ts.generator';
+import { Label } from '../../src/label';
 import { Workspace } from '../../src/workspace';
 
 describe('ng generator', () => {
@@ -68,3 +69,556 @@ export class Some {}
     expect(commands.join('\n')).toEqual(expected);
   });
 });
+
+describe('ts generator tsconfig resolution', () => {
+  const TS_APP =
+    `import { Shared } from '@app/shared/shared';
+import { Util } from 'src/util/util';
+import { Gen } from './gen';
+import { Observable } from 'rxjs';
+`;
+
+  let workspace: Workspace;
+  let gen: TsGenerator;
+
+  beforeEach(() => {
+    const argv = [
+      'ts',
+      './src/app',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      '--ts_config_label=//:tsconfig'
+    ];
+
+    workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+    gen = new TsGenerator(workspace);
+
+    mockfs({
+      '/home/workspace': {
+        'tsconfig.json': `{
+          // comments are allowed in tsconfig files
+          "extends": "./tsconfig.base",
+          "compilerOptions": { "rootDirs": ["src", "genfiles/src"] }
+        }`,
+        'tsconfig.base.json': JSON.stringify({
+          compilerOptions: { baseUrl: '.', paths: { '@app/shared/*': ['src/shared/*'] } }
+        }),
+        src: {
+          app: { 'app.ts': TS_APP },
+          shared: { 'shared.ts': '' },
+          util: { 'util.ts': '' }
+        },
+        genfiles: {
+          src: { app: { 'gen.ts': '' } }
+        }
+      }
+    });
+  });
+
+  afterEach(() => mockfs.restore());
+
+  it('can resolve paths, baseUrl and rootDirs imports to workspace labels', () => {
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    const expected =
+      'new ts_library app|//src/app:__pkg__\n' +
+      'add srcs app.ts|//src/app:app\n' +
+      'add deps //src/shared:shared //src/util:util //genfiles/src/app:gen @npm//rxjs:rxjs|//src/app:app\n' +
+      'set tsconfig "//:tsconfig"|//src/app:app';
+
+    expect(commands.join('\n')).toEqual(expected);
+  });
+});
+
+describe('ts generator spec targets', () => {
+  let workspace: Workspace;
+  let gen: TsGenerator;
+
+  beforeEach(() => {
+    const argv = [
+      'ts',
+      './src/some',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      '--generate_spec_targets',
+      '--load_mapping=ts_library=@npm_bazel_typescript//:index.bzl',
+      '--load_mapping=jasmine_node_test=@npm_bazel_jasmine//:index.bzl'
+    ];
+
+    workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+    gen = new TsGenerator(workspace);
+
+    mockfs({
+      '/home/workspace/src/some': {
+        'one.ts': `import { Observable } from 'rxjs';`,
+        'one.spec.ts': `import { One } from './one';\nimport { helper } from './helper.spec';\nimport * as mock from 'mock-fs';`,
+        'helper.spec.ts': ''
+      }
+    });
+  });
+
+  afterEach(() => mockfs.restore());
+
+  it('can generate a testonly ts_library and test rule for spec files', () => {
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    const expected =
+      'new_load @npm_bazel_typescript//:index.bzl ts_library|//src/some:__pkg__\n' +
+      'new ts_library some|//src/some:__pkg__\n' +
+      'add srcs one.ts|//src/some:some\n' +
+      'add deps @npm//rxjs:rxjs|//src/some:some\n' +
+      'new ts_library some-test_srcs|//src/some:__pkg__\n' +
+      'add srcs helper.spec.ts one.spec.ts|//src/some:some-test_srcs\n' +
+      'add deps //src/some:some @npm//mock-fs:mock-fs|//src/some:some-test_srcs\n' +
+      'set testonly True|//src/some:some-test_srcs\n' +
+      'new_load @npm_bazel_jasmine//:index.bzl jasmine_node_test|//src/some:__pkg__\n' +
+      'new jasmine_node_test some-test|//src/some:__pkg__\n' +
+      'add srcs :some-test_srcs|//src/some:some-test';
+
+    expect(commands.join('\n')).toEqual(expected);
+  });
+
+  it('names the spec targets after the package so they do not clash with a package named test', () => {
+    const argv = ['ts', './src/test', '--base_dir=/home/workspace', '--no-assert_is_bazel_workspace', '--generate_spec_targets'];
+    workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+
+    mockfs({ '/home/workspace/src/test': { 'util.ts': '', 'util.spec.ts': `import { util } from './util';` } });
+
+    new TsGenerator(workspace).generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    expect(commands).toContain('new ts_library test|//src/test:__pkg__');
+    expect(commands).toContain('new ts_library test-test_srcs|//src/test:__pkg__');
+    expect(commands).toContain('new jasmine_node_test test-test|//src/test:__pkg__');
+  });
+});
+
+describe('ts generator dependency detection', () => {
+  const TS_DEPS =
+    `/// <reference types="node" />
+/// <reference path="../typings/globals.d.ts" />
+import type { Routes } from "@angular/router";
+export type { Foo } from '../foo/foo';
+import fs = require('fs-extra');
+const yargs = require("yargs");
+
+export const routes: Routes = [
+  { path: 'lazy', loadChildren: () => import('../lazy/lazy').then(m => m.LazyModule) },
+  { path: 'local', loadChildren: () => import(\`./local\`).then(m => m.LocalModule) }
+];
+`;
+
+  let workspace: Workspace;
+  let gen: TsGenerator;
+
+  beforeEach(() => {
+    const argv = [
+      'ts',
+      './src/app',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace'
+    ];
+
+    workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+    gen = new TsGenerator(workspace);
+
+    mockfs({
+      '/home/workspace/src': {
+        app: { 'routes.ts': TS_DEPS, 'local.ts': '' },
+        foo: { 'foo.ts': '' },
+        lazy: { 'lazy.ts': '' },
+        typings: { 'globals.d.ts': '' }
+      }
+    });
+  });
+
+  afterEach(() => mockfs.restore());
+
+  it('can detect dynamic imports, requires, type only imports and triple-slash references', () => {
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    const expected =
+      'new ts_library app|//src/app:__pkg__\n' +
+      'add srcs local.ts routes.ts|//src/app:app\n' +
+      'add deps @npm//@angular/router:router //src/foo:foo @npm//fs-extra:fs-extra @npm//yargs:yargs ' +
+      '//src/lazy:lazy //src/typings:globals-d @npm//@types/node:node|//src/app:app';
+
+    expect(commands.join('\n')).toEqual(expected);
+  });
+
+  it('can resolve deep imports to the npm package that contains them', () => {
+    mockfs({
+      '/home/workspace': {
+        src: {
+          app: {
+            'app.ts': `import { map } from 'lodash/fp';
+import { Overlay } from '@angular/cdk/overlay';
+import { MatButtonModule } from '@angular/material/button';
+import { thing } from '@scope/pkg/sub/path';`
+          }
+        },
+        node_modules: {
+          lodash: { 'package.json': '{ "name": "lodash" }', fp: { 'package.json': '{}' } },
+          '@angular': {
+            cdk: { 'package.json': '{ "name": "@angular/cdk" }' },
+            material: { 'package.json': '{ "name": "@angular/material" }', button: { 'package.json': '{}' } }
+          }
+        }
+      }
+    });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    const expected =
+      'new ts_library app|//src/app:__pkg__\n' +
+      'add srcs app.ts|//src/app:app\n' +
+      'add deps @npm//lodash:lodash @npm//@angular/cdk:cdk @npm//@angular/material:material @npm//@scope/pkg:pkg|//src/app:app';
+
+    expect(commands.join('\n')).toEqual(expected);
+  });
+
+  it('can map node built-ins and add @types packages for untyped npm packages', () => {
+    mockfs({
+      '/home/workspace': {
+        src: {
+          app: {
+            'app.ts': `import { readFileSync } from 'fs';
+import { join } from 'node:path';
+import { exec } from 'child_process';
+import * as leftPad from 'left-pad';
+import { typed } from 'typed';`
+          }
+        },
+        node_modules: {
+          'left-pad': { 'package.json': '{ "name": "left-pad", "main": "index.js" }' },
+          typed: { 'package.json': '{ "name": "typed", "types": "typed.d.ts" }' },
+          '@types': {
+            'left-pad': { 'package.json': '{ "name": "@types/left-pad" }' },
+            typed: { 'package.json': '{ "name": "@types/typed" }' }
+          }
+        }
+      }
+    });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    const expected =
+      'new ts_library app|//src/app:__pkg__\n' +
+      'add srcs app.ts|//src/app:app\n' +
+      'add deps @npm//@types/node:node @npm//left-pad:left-pad @npm//@types/left-pad:left-pad @npm//typed:typed|//src/app:app';
+
+    expect(commands.join('\n')).toEqual(expected);
+  });
+});
+
+describe('ts generator module resolution', () => {
+  const TS_APP =
+    `import { Widget } from '../widgets';
+import { Button } from '../components/button';
+import { Legacy } from '../legacy/legacy.js';
+import { Globals } from '../typings/globals';
+import { Lib } from '../lib';
+import config from '../config/config.json';
+import { Helper } from './helpers';
+`;
+
+  let workspace: Workspace;
+  let gen: TsGenerator;
+
+  beforeEach(() => {
+    const argv = [
+      'ts',
+      './src/app',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      '--ts_config=tsconfig.json'
+    ];
+
+    workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+    gen = new TsGenerator(workspace);
+
+    mockfs({
+      '/home/workspace': {
+        'tsconfig.json': JSON.stringify({ compilerOptions: { resolveJsonModule: true } }),
+        src: {
+          app: { 'app.ts': TS_APP, helpers: { 'index.ts': '' } },
+          widgets: { 'index.ts': '' },
+          components: { 'button.tsx': '' },
+          legacy: { 'legacy.ts': '' },
+          typings: { 'globals.d.ts': '' },
+          lib: { 'package.json': JSON.stringify({ typings: 'lib.d.ts' }), 'lib.d.ts': '' },
+          config: { BUILD: '', 'config.json': '' }
+        }
+      }
+    });
+  });
+
+  afterEach(() => mockfs.restore());
+
+  it('can resolve index files, other source extensions and json modules', () => {
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    const expected =
+      'new ts_library app|//src/app:__pkg__\n' +
+      'add srcs app.ts|//src/app:app\n' +
+      'add deps //src/widgets:index //src/components:button //src/legacy:legacy //src/typings:globals-d ' +
+      '//src/lib:lib-d //src/config:config //src/app/helpers:index|//src/app:app';
+
+    expect(commands.join('\n')).toEqual(expected);
+  });
+
+  it('can resolve the label for a file owned by a package in a parent directory', () => {
+    mockfs({
+      '/home/workspace': {
+        src: {
+          app: { 'app.ts': `import { Thing } from '../shared/things/thing';` },
+          shared: { BUILD: '', things: { 'thing.ts': '' } }
+        }
+      }
+    });
+
+    gen.generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    expect(commands).toContain('add deps //src/shared:thing|//src/app:app');
+  });
+});
+
+describe('ts generator fine grained targets', () => {
+  const setup = (granularity: string) => {
+    const argv = [
+      'ts',
+      './src/some',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      `--ts_library_granularity=${granularity}`
+    ];
+
+    const workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+
+    mockfs({
+      '/home/workspace/src/some': {
+        'a.ts': `import { b } from './b';\nimport { Observable } from 'rxjs';`,
+        'b.ts': `import { c } from './c';`,
+        'c.ts': `import { b } from './b';\nimport { map } from 'lodash';`
+      }
+    });
+
+    return workspace;
+  };
+
+  afterEach(() => mockfs.restore());
+
+  it('can generate a ts_library per file', () => {
+    const workspace = setup('file');
+    new TsGenerator(workspace).generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    const expected =
+      'new ts_library a|//src/some:__pkg__\n' +
+      'add srcs a.ts|//src/some:a\n' +
+      'add deps @npm//rxjs:rxjs :b|//src/some:a\n' +
+      'new ts_library b|//src/some:__pkg__\n' +
+      'add srcs b.ts|//src/some:b\n' +
+      'add deps :c|//src/some:b\n' +
+      'new ts_library c|//src/some:__pkg__\n' +
+      'add srcs c.ts|//src/some:c\n' +
+      'add deps @npm//lodash:lodash :b|//src/some:c';
+
+    expect(commands.join('\n')).toEqual(expected);
+  });
+
+  it('can generate a ts_library per strongly connected group of files', () => {
+    const workspace = setup('scc');
+    new TsGenerator(workspace).generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    const expected =
+      'new ts_library a|//src/some:__pkg__\n' +
+      'add srcs a.ts|//src/some:a\n' +
+      'add deps @npm//rxjs:rxjs :b|//src/some:a\n' +
+      'new ts_library b|//src/some:__pkg__\n' +
+      'add srcs b.ts c.ts|//src/some:b\n' +
+      'add deps @npm//lodash:lodash|//src/some:b';
+
+    expect(commands.join('\n')).toEqual(expected);
+  });
+});
+
+describe('ts generator dependency cycles', () => {
+  let workspace: Workspace;
+  let gen: TsGenerator;
+
+  beforeEach(() => {
+    const argv = [
+      'ts',
+      './src/a',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      '--fail_on_cycles'
+    ];
+
+    workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+    gen = new TsGenerator(workspace);
+  });
+
+  afterEach(() => mockfs.restore());
+
+  it('refuses to generate when the deps create a cycle', async () => {
+    mockfs({
+      '/home/workspace/src': {
+        a: { 'a.ts': `import { b } from '../b/b';` },
+        b: { 'b.ts': `import { c } from '../c/c';` },
+        c: { 'c.ts': `import { a } from '../a/a';` }
+      }
+    });
+
+    const exit = spyOn(process, 'exit').and.throwError('exit');
+
+    await gen.generate().catch(() => {});
+
+    expect(exit).toHaveBeenCalledWith(1);
+    expect(workspace.getBuildozer().toCommands()).toEqual([]);
+  });
+
+  it('finds cycles through files in subdirectories owned by another package', async () => {
+    mockfs({
+      '/home/workspace/src': {
+        a: { 'a.ts': `import { b } from '../b/b';` },
+        b: {
+          'BUILD': '',
+          'b.ts': '',
+          'nested': { 'n.ts': `import { a } from '../../a/a';` }
+        }
+      }
+    });
+
+    const exit = spyOn(process, 'exit').and.throwError('exit');
+
+    await gen.generate().catch(() => {});
+
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+
+  it('only warns about cycles that the existing deps of the package are already part of', async () => {
+    mockfs({
+      '/home/workspace/src': {
+        a: { 'BUILD': '', 'a.ts': `import { b } from '../b/b';` },
+        b: { 'b.ts': `import { a } from '../a/a';` }
+      }
+    });
+
+    spyOn(workspace, 'readPackageDeps').and.returnValue([Label.parseAbsolute('//src/b:b')]);
+    const exit = spyOn(process, 'exit');
+
+    await gen.generate();
+
+    expect(workspace.readPackageDeps).toHaveBeenCalledWith('src/a');
+    expect(exit).not.toHaveBeenCalled();
+    expect(workspace.getBuildozer().toCommands()).toContain('add deps //src/b:b|//src/a:a');
+  });
+
+  it('generates when the deps do not create a cycle', async () => {
+    mockfs({
+      '/home/workspace/src': {
+        a: { 'a.ts': `import { b } from '../b/b';` },
+        b: { 'b.ts': `import { c } from '../c/c';` },
+        c: { 'c.ts': `` }
+      }
+    });
+
+    const exit = spyOn(process, 'exit');
+
+    await gen.generate();
+
+    expect(exit).not.toHaveBeenCalled();
+    expect(workspace.getBuildozer().toCommands()).toContain('add deps //src/b:b|//src/a:a');
+  });
+});
+
+describe('ts generator nodejs_binary', () => {
+  const setup = (...flags: string[]): Workspace => {
+    const argv = [
+      'ts',
+      './src/tools',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      '--load_mapping=nodejs_binary=@build_bazel_rules_nodejs//:index.bzl',
+      ...flags
+    ];
+
+    const workspace = new Workspace(setupAndParseArgs(argv, true, 0));
+
+    mockfs({
+      '/home/workspace/src/tools': {
+        'package.json': JSON.stringify({ name: 'tools', bin: { release: './release.js' } }),
+        'cli.ts': `#!/usr/bin/env node\nimport * as yargs from 'yargs';\nimport { run } from './run';`,
+        'release.ts': `import { run } from './run';`,
+        'run.ts': `import { readFileSync } from 'fs';\nimport * as shell from 'shelljs';`,
+        'util.ts': `import { get } from 'lodash';`
+      }
+    });
+
+    return workspace;
+  };
+
+  afterEach(() => mockfs.restore());
+
+  it('can generate a nodejs_binary for each entry point', () => {
+    const workspace = setup('--generate_nodejs_binaries');
+    new TsGenerator(workspace).generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    const expected =
+      'new ts_library tools|//src/tools:__pkg__\n' +
+      'add srcs cli.ts release.ts run.ts util.ts|//src/tools:tools\n' +
+      'add deps @npm//yargs:yargs @npm//@types/node:node @npm//shelljs:shelljs @npm//lodash:lodash|//src/tools:tools\n' +
+      'new_load @build_bazel_rules_nodejs//:index.bzl nodejs_binary|//src/tools:__pkg__\n' +
+      'new nodejs_binary release-bin|//src/tools:__pkg__\n' +
+      'set entry_point "//src/tools:release.ts"|//src/tools:release-bin\n' +
+      'add data :tools @npm//yargs:yargs @npm//shelljs:shelljs @npm//lodash:lodash|//src/tools:release-bin\n' +
+      'new nodejs_binary cli-bin|//src/tools:__pkg__\n' +
+      'set entry_point "//src/tools:cli.ts"|//src/tools:cli-bin\n' +
+      'add data :tools @npm//yargs:yargs @npm//shelljs:shelljs @npm//lodash:lodash|//src/tools:cli-bin';
+
+    expect(commands.join('\n')).toEqual(expected);
+  });
+
+  it('includes only the npm deps reachable from the entry point when generating per file', () => {
+    const workspace = setup('--nodejs_binary_entry_point=release.ts', '--ts_library_granularity=file');
+    new TsGenerator(workspace).generate();
+
+    const commands = workspace.getBuildozer().toCommands();
+
+    expect(commands).toContain('add data :release @npm//shelljs:shelljs|//src/tools:release-bin');
+    expect(commands).not.toContain('new nodejs_binary cli-bin|//src/tools:__pkg__');
+  });
+
+  it('exits when the package.json is malformed', async () => {
+    const workspace = setup('--generate_nodejs_binaries');
+    mockfs({ '/home/workspace/src/tools': { 'package.json': '{ "bin": ', 'cli.ts': '' } });
+
+    const exit = spyOn(process, 'exit').and.throwError('exit');
+
+    await new TsGenerator(workspace).generate().catch(() => {});
+
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+});
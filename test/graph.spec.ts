@@ -0,0 +1,28 @@
+import { DirectedGraph } from '../src/graph';
+
+describe('graph', () => {
+  it('can find strongly connected components', () => {
+    const graph = new DirectedGraph<string>();
+    graph.addEdge('a', 'b');
+    graph.addEdge('b', 'c');
+    graph.addEdge('c', 'b');
+    graph.addEdge('c', 'd');
+    graph.addNode('e');
+
+    const components = graph.stronglyConnectedComponents().map(component => component.sort());
+
+    expect(components).toEqual([['d'], ['b', 'c'], ['a'], ['e']]);
+  });
+
+  it('can find cycles', () => {
+    const graph = new DirectedGraph<string>();
+    graph.addEdge('a', 'b');
+    graph.addEdge('b', 'a');
+    graph.addEdge('c', 'c');
+    graph.addEdge('c', 'd');
+
+    const cycles = graph.findCycles().map(cycle => cycle.sort());
+
+    expect(cycles).toEqual([['a', 'b'], ['c']]);
+  });
+});
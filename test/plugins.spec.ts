@@ -0,0 +1,75 @@
+import * as mockfs from 'mock-fs';
+
+import { setupAndParseArgs, GeneratorType } from '../src/flags';
+import { BuildFileGenerator } from '../src/generators/generator';
+import { scanBaseDir, scanGeneratorPluginPaths, GeneratorPlugin } from '../src/plugins';
+import { Workspace } from '../src/workspace';
+
+class MacroGenerator extends BuildFileGenerator {
+  constructor(private readonly workspace: Workspace) {
+    super();
+  }
+
+  async generate(): Promise<void> {
+    const label = this.workspace.getLabelForPath();
+    this.workspace.getBuildozer().newRule(this.workspace.getFlag<string>('macro_kind'), label);
+  }
+
+  getGeneratorType(): string {
+    return 'macro';
+  }
+
+  supportsDirectories(): boolean {
+    return true;
+  }
+}
+
+describe('generator plugins', () => {
+  const plugin: GeneratorPlugin = {
+    type: 'macro',
+    setupGeneratorCommand: y => y.option('macro_kind', { type: 'string', default: 'acme_library' }),
+    createGenerator: workspace => new MacroGenerator(workspace)
+  };
+
+  afterEach(() => mockfs.restore());
+
+  it('can scan the args for plugin paths', () => {
+    const args = ['ts', './src', '--generator_plugin=./tools/plugin', '--generator_plugin', '@acme/bzlgen-plugin'];
+    expect(scanGeneratorPluginPaths(args)).toEqual(['./tools/plugin', '@acme/bzlgen-plugin']);
+  });
+
+  it('can scan the args for the base dir that relative plugin paths are resolved from', () => {
+    expect(scanBaseDir(['ts', './src', '--generator_plugin=./tools/plugin'])).toBeUndefined();
+    expect(scanBaseDir(['ts', './src', '--base_dir', '/home/rc', '--base_dir=/home/workspace'])).toEqual('/home/workspace');
+  });
+
+  it('can parse the subcommand and flags of a plugin and run its generator', () => {
+    const argv = [
+      'macro',
+      './src/lib',
+      '--base_dir=/home/workspace',
+      '--no-assert_is_bazel_workspace',
+      '--macro_kind=acme_ts_library'
+    ];
+
+    const flags = setupAndParseArgs(argv, true, 0, [plugin]);
+    expect(flags.type as string).toEqual('macro');
+
+    mockfs({ '/home/workspace/src/lib': { 'lib.ts': '' } });
+
+    const workspace = new Workspace(flags);
+    plugin.createGenerator(workspace).generate();
+
+    expect(workspace.getBuildozer().toCommands()).toEqual(['new acme_ts_library lib|//src/lib:__pkg__']);
+  });
+
+  it('refuses plugins that clash with a built in generator', () => {
+    const exit = spyOn(process, 'exit').and.throwError('exit');
+
+    const argv = ['ts', './src/lib', '--base_dir=/home/workspace'];
+    const clashing: GeneratorPlugin = { type: GeneratorType.TS, createGenerator: () => undefined };
+
+    expect(() => setupAndParseArgs(argv, true, 0, [clashing])).toThrowError('exit');
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+});